@@ -0,0 +1,196 @@
+// app/aliases/page.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Alias = { term: string; expansion: string };
+
+const inputStyle = {
+  border: "1px solid #ccc",
+  padding: "6px 8px",
+  borderRadius: "6px",
+  background: "#fff",
+  width: "100%",
+};
+
+// Admin page for the alias dictionary (/api/kb/aliases)
+export default function AliasesPage() {
+  const [aliases, setAliases] = useState<Alias[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    fetch("/api/kb/aliases")
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.ok && Array.isArray(json.aliases)) setAliases(json.aliases);
+        else setStatus(`❌ ${json.error || "Could not load aliases"}`);
+      })
+      .catch((err) => setStatus(`❌ Could not load aliases: ${err.message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  function update(index: number, field: keyof Alias, value: string) {
+    setAliases((prev) =>
+      prev.map((a, i) => (i === index ? { ...a, [field]: value } : a))
+    );
+  }
+
+  function remove(index: number) {
+    setAliases((prev) => prev.filter((_, i) => i !== index));
+  }
+
+  // Re-embed a KB's stale rows; each call runs for a while, so keep calling
+  // until the job is done
+  async function reindexKb(kb: string) {
+    for (;;) {
+      const res = await fetch(`/api/reindex?kb=${encodeURIComponent(kb)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: "{}",
+      });
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error || `Reindex of ${kb} failed`);
+      if (json.done) return;
+    }
+  }
+
+  async function save() {
+    setLoading(true);
+    setStatus("💾 Saving…");
+    try {
+      const res = await fetch("/api/kb/aliases", {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          aliases: aliases.filter((a) => a.term.trim() || a.expansion.trim()),
+        }),
+      });
+      const json = await res.json();
+      if (!json.ok) {
+        setStatus(`⚠️ ${json.error}`);
+        return;
+      }
+      setAliases(json.aliases);
+      const pending = (json.reindex || []).filter((r: any) => r.affected > 0);
+      let rows = 0;
+      for (const r of pending) {
+        setStatus(`🔄 Re-embedding ${r.affected} rows in KB "${r.kb}"…`);
+        await reindexKb(r.kb);
+        rows += r.affected;
+      }
+      setStatus(
+        `✅ Saved ${json.aliases.length} aliases; ${rows} rows re-embedded.`
+      );
+    } catch (err: any) {
+      setStatus(`❌ Save failed: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main
+      style={{
+        maxWidth: 640,
+        margin: "0 auto",
+        padding: "60px 20px",
+        minHeight: "100vh",
+      }}
+    >
+      <h1 style={{ fontSize: "1.6rem", fontWeight: 700 }}>Aliases</h1>
+      <p style={{ fontSize: 14, color: "#555" }}>
+        Abbreviations expanded in questions, KB answers and search queries
+        (whole words, any case, plurals too). Shared by all knowledge bases.{" "}
+        <a href="/">Back</a>
+      </p>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left", fontSize: 14 }}>
+            <th style={{ width: "30%" }}>Term</th>
+            <th>Expansion</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {aliases.map((a, i) => (
+            <tr key={i}>
+              <td style={{ padding: "4px 6px 4px 0" }}>
+                <input
+                  value={a.term}
+                  onChange={(e) => update(i, "term", e.target.value)}
+                  disabled={loading}
+                  style={inputStyle}
+                />
+              </td>
+              <td style={{ padding: "4px 6px 4px 0" }}>
+                <input
+                  value={a.expansion}
+                  onChange={(e) => update(i, "expansion", e.target.value)}
+                  disabled={loading}
+                  style={inputStyle}
+                />
+              </td>
+              <td>
+                <button onClick={() => remove(i)} disabled={loading}>
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ display: "flex", gap: "10px", marginTop: 15 }}>
+        <button
+          onClick={() =>
+            setAliases((prev) => [...prev, { term: "", expansion: "" }])
+          }
+          disabled={loading}
+          style={{
+            background: "#6c757d",
+            padding: "10px 18px",
+            borderRadius: "6px",
+            color: "white",
+          }}
+        >
+          Add alias
+        </button>
+        <button
+          onClick={save}
+          disabled={loading}
+          style={{
+            background: "#28a745",
+            padding: "10px 18px",
+            borderRadius: "6px",
+            color: "white",
+          }}
+        >
+          {loading ? "Working…" : "Save"}
+        </button>
+      </div>
+
+      {status && (
+        <div
+          style={{
+            marginTop: 20,
+            padding: "12px 20px",
+            borderRadius: "6px",
+            background: "#fff",
+            boxShadow: "0 1px 4px rgba(0,0,0,0.1)",
+            fontWeight: 500,
+            color: status.startsWith("❌")
+              ? "red"
+              : status.startsWith("⚠️")
+              ? "#b58900"
+              : "green",
+          }}
+        >
+          {status}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -15,14 +15,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { POST as kbUpdatePOST } from "@/app/api/kb-update/route";
 import { getEmbedding } from "@/lib/embed";
 import { retrieveMatches } from "@/lib/kb";
+import { currentKb } from "@/lib/kbStore";
+import { withRequestKb } from "@/lib/kbRegistry";
+import {
+  resolveRetrievalProfile,
+  selectProfileMatches,
+  KbProfileError,
+} from "@/lib/kbProfiles";
+import { rerankMatches } from "@/lib/kbRerank";
 
 const MODEL = "gpt-4o-mini";
-const TOP_K = 10;
-const MIN_SCORE = 0.32;
 
 type RawMatch = {
   score: number;
   lexicalScore: number | null;
+  rerankScore: number | null; // set when the profile reranks
   source: string;
   snippet: string;
 };
@@ -36,10 +43,16 @@ type ChatResponse = {
 };
 
 // ---------------------------------------------------------------------
-// In-memory sticky overrides: normalizedQuestionKey -> answer
+// In-memory sticky overrides: "<kb>:<normalizedQuestionKey>" -> answer
 // ---------------------------------------------------------------------
 const overrideMap: Record<string, string> = {};
 
+// Overrides belong to the KB they were made in
+function overrideKeyFor(q: string): string {
+  const key = normalizeQuestionKey(q);
+  return key ? `${currentKb()}:${key}` : "";
+}
+
 /* ---------------------- small helper functions ---------------------- */
 
 function norm(value: any): string {
@@ -91,7 +104,10 @@ function safeSnippet(text: string): string {
  * - "the answer for 'how many psychiatrists' to 2527"
  * - "answer for how many LSWs to 20669"
  */
-async function handleUpdateCommand(cmd: string): Promise<ChatResponse> {
+async function handleUpdateCommand(
+  cmd: string,
+  req: NextRequest
+): Promise<ChatResponse> {
   let rest = cmd.trim().replace(/\s+/g, " ");
 
   // Strip common prefixes
@@ -139,7 +155,7 @@ async function handleUpdateCommand(cmd: string): Promise<ChatResponse> {
   }
 
   // 1) Update in-memory override map so it "sticks" for matching questions.
-  const overrideKey = normalizeQuestionKey(subject);
+  const overrideKey = overrideKeyFor(subject);
   if (overrideKey) {
     overrideMap[overrideKey] = newAnswer;
     console.log("[CHAT] override updated", overrideKey, "->", newAnswer);
@@ -150,13 +166,23 @@ async function handleUpdateCommand(cmd: string): Promise<ChatResponse> {
     question: subject,
     answer: newAnswer,
     source: "chat-update",
+    via: "chat-command",
   };
 
+  // Forward caller identity so the audit log attributes the change to them
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  for (const h of ["x-kb-actor", "x-forwarded-for"]) {
+    const v = req.headers.get(h);
+    if (v) headers[h] = v;
+  }
+
   try {
-    const kbReq = new NextRequest("http://local/api/kb-update", {
+    const kbUrl =
+      "http://local/api/kb-update?kb=" + encodeURIComponent(currentKb());
+    const kbReq = new NextRequest(kbUrl, {
       method: "POST",
       body: JSON.stringify(payload),
-      headers: { "content-type": "application/json" },
+      headers,
     });
 
     const kbRes = await kbUpdatePOST(kbReq as any);
@@ -211,7 +237,13 @@ async function handleUpdateCommand(cmd: string): Promise<ChatResponse> {
 
 /* ------------------------ main chat handler ------------------------- */
 
+// ?kb=<name> selects a named KB (default KB when omitted)
+// ?profile=<name> (or `profile` in the body) selects a retrieval profile
 export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => chat(req));
+}
+
+async function chat(req: NextRequest) {
   console.log("[CHAT] Request received");
 
   try {
@@ -239,14 +271,14 @@ export async function POST(req: NextRequest) {
     // Magic update: command (always return HTTP 200 so UI doesnt show generic error)
     if (messageRaw.toLowerCase().startsWith("update:")) {
       const cmd = messageRaw.slice("update:".length).trim();
-      const updateResult = await handleUpdateCommand(cmd);
+      const updateResult = await handleUpdateCommand(cmd, req);
       return NextResponse.json(updateResult, { status: 200 });
     }
 
     const question = messageRaw;
 
     // Check sticky overrides first
-    const overrideKey = normalizeQuestionKey(question);
+    const overrideKey = overrideKeyFor(question);
     if (overrideKey && overrideMap[overrideKey]) {
       const aiAnswer = overrideMap[overrideKey];
       const responsePayload: ChatResponse = {
@@ -264,19 +296,27 @@ export async function POST(req: NextRequest) {
       throw new Error("Missing OPENAI_API_KEY");
     }
 
+    const profile = await resolveRetrievalProfile(
+      req.nextUrl.searchParams.get("profile") ?? body.profile
+    );
     const emb = await getEmbedding(question);
-    const matches = await retrieveMatches(emb, TOP_K, question);
-
-    // First, try strict threshold; if nothing passes, fall back to all matches.
-    let good = (matches || []).filter(
-      (m: any) => m.score >= MIN_SCORE && m.answer
+    const matches = await retrieveMatches(
+      emb,
+      profile.topK,
+      question,
+      profile
     );
 
-    if (good.length === 0 && matches && matches.length > 0) {
+    // First, try the profile's threshold; its fallback decides what happens
+    // when nothing passes.
+    const { matches: good, fellBack } = selectProfileMatches(
+      matches,
+      profile
+    );
+    if (fellBack) {
       console.log(
-        "[CHAT] No matches >= MIN_SCORE; falling back to top matches anyway."
+        `[CHAT] No matches >= ${profile.minScore} (profile "${profile.name}"); falling back to top matches anyway.`
       );
-      good = matches.filter((m: any) => m.answer);
     }
 
     const seen = new Set<string>();
@@ -291,9 +331,14 @@ export async function POST(req: NextRequest) {
       deduped.push(m);
     }
 
+    // Optional LLM reranking: drops weak candidates, reorders the rest
+    const candidates = profile.rerank
+      ? await rerankMatches(question, deduped, profile.rerankMinScore)
+      : deduped;
+
     const candidateBlock =
-      deduped.length > 0
-        ? deduped
+      candidates.length > 0
+        ? candidates
             .map(
               (m, idx) =>
                 "[Answer " +
@@ -307,7 +352,7 @@ export async function POST(req: NextRequest) {
     let aiAnswer = "Information not found in KB.";
 
     try {
-      if (deduped.length > 0) {
+      if (candidates.length > 0) {
         const prompt =
           "You are an expert RFP analyst for Uprise Health.\n" +
           "Use ONLY facts from the candidate answers provided.\n" +
@@ -356,10 +401,11 @@ export async function POST(req: NextRequest) {
       aiAnswer = "N/A (not available in KB).";
     }
 
-    const rawMatches: RawMatch[] = deduped.map((m: any) => ({
+    const rawMatches: RawMatch[] = candidates.map((m: any) => ({
       score: m.score,
       lexicalScore:
         typeof m.lexicalScore === "number" ? m.lexicalScore : null,
+      rerankScore: typeof m.rerankScore === "number" ? m.rerankScore : null,
       source: m.source || m.origin || "Unknown source",
       snippet: safeSnippet(m.answer),
     }));
@@ -377,7 +423,7 @@ export async function POST(req: NextRequest) {
     console.error("[CHAT] ERROR", err);
     return NextResponse.json(
       { ok: false, error: err?.message || "Unknown error" },
-      { status: 500 }
+      { status: err instanceof KbProfileError ? err.status : 500 }
     );
   }
 }
@@ -10,5 +10,6 @@ export async function GET() {
       ? process.env.BLOB_READ_WRITE_TOKEN.slice(0, 30) + "..."
       : "❌ missing",
     BLOB_BASE_URL: process.env.BLOB_BASE_URL ?? "❌ missing",
+    KB_STORE: process.env.KB_STORE ?? "blob (default)",
   });
 }
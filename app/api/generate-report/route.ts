@@ -15,7 +15,15 @@ import * as XLSX from "xlsx";
 
 import { parseUnified } from "@/lib/unifiedParser";
 import { getEmbedding } from "@/lib/embed";
-import { retrieveMatchesWithContext } from "@/lib/kb";
+import { getKbIndex, retrieveMatchesForQueries } from "@/lib/kb";
+import { withKb } from "@/lib/kbStore";
+import { resolveKbNames } from "@/lib/kbRegistry";
+import {
+  resolveRetrievalProfile,
+  selectProfileMatches,
+} from "@/lib/kbProfiles";
+import { rewriteQuery } from "@/lib/kbQueryRewrite";
+import { rerankMatches } from "@/lib/kbRerank";
 
 import { buildAnalystDocx } from "@/lib/buildAnalystDocx";
 import { buildSimpleDocx } from "@/lib/buildSimpleDocx";
@@ -36,8 +44,6 @@ export function sanitizeForDocx(input: any): string {
 /* ---------------------------------- Helpers --------------------------------- */
 
 const MODEL = "gpt-4o-mini";
-const TOP_K = 10;
-const MIN_SCORE = 0.32;
 
 const Q_HEADER_REGEX = /(question|prompt|rfp\s*item|inquiry|ask)/i;
 const A_HEADER_REGEX =
@@ -94,7 +100,11 @@ function safeSnippet(text: string): string {
 
 /* --------------------------------------------------------------------------- */
 
-type MatchItem = { source: string; snippet: string };
+type MatchItem = {
+  source: string;
+  snippet: string;
+  rerankScore?: number; // LLM relevance, when the profile reranks
+};
 
 export type QAItem = {
   question: string;
@@ -104,6 +114,10 @@ export type QAItem = {
   rawTextMatches: MatchItem[];
   // NEW: raw context chunks (contracts, SOWs, policies, etc.)
   contextChunks?: MatchItem[];
+  // Sources of draft (unreviewed) KB rows the answer was built from
+  draftSources?: string[];
+  // LLM rewrites of the question that were searched too (queryRewrite)
+  searchQueries?: string[];
 };
 
 /* ---------------------------------------------------------------------------
@@ -342,10 +356,17 @@ async function buildReplicaDocxFromOriginalDocx(
    Main report generation route
 --------------------------------------------------------------------------- */
 
+// ?kb=pilot,eap,default searches several KBs, in that priority order
+// ?profile=<name> (or a `profile` form field) selects a retrieval profile of
+// the first KB; its default profile otherwise
+// ?rewrite=<n> (or a `rewrite` form field) overrides the profile's
+// queryRewrite: search n LLM-rewritten queries per question, 0 = off
 export async function POST(req: NextRequest) {
   console.log("[REPORT] ZIP-enabled route active");
 
   try {
+    const kbNames = await resolveKbNames(req.nextUrl.searchParams.get("kb"));
+
     const form = await req.formData();
     const file = form.get("file") as File | null;
 
@@ -375,35 +396,68 @@ export async function POST(req: NextRequest) {
       throw new Error("Missing OPENAI_API_KEY");
     }
 
+    const profile = await withKb(kbNames[0], () =>
+      resolveRetrievalProfile(
+        req.nextUrl.searchParams.get("profile") ??
+          ((form.get("profile") as string | null) || null)
+      )
+    );
+    const rewriteParam =
+      req.nextUrl.searchParams.get("rewrite") ??
+      ((form.get("rewrite") as string | null) || null);
+    const rewriteCount =
+      rewriteParam !== null && rewriteParam !== ""
+        ? Number(rewriteParam) || 0
+        : profile.queryRewrite || 0;
+    console.log(
+      `[REPORT] Retrieval profile: ${profile.name}` +
+        (rewriteCount ? ` (up to ${rewriteCount} rewritten queries)` : "")
+    );
+
+    // Load and prepare each KB once; every question is scored against them
+    const kbIndexes = await Promise.all(
+      kbNames.map((name) => withKb(name, getKbIndex))
+    );
+    console.log(`[REPORT] Searching KBs: ${kbNames.join(" > ")}`);
+
     const items: QAItem[] = [];
 
     for (let i = 0; i < parsed.length; i++) {
       const qRaw = norm(parsed[i].question);
       if (qRaw.length === 0) continue;
 
-      const emb = await getEmbedding(qRaw);
+      // The question itself plus its focused rewrites, if enabled
+      const searchQueries = await rewriteQuery(qRaw, rewriteCount);
+      if (searchQueries.length) {
+        console.log(`[REPORT] Searching as: ${searchQueries.join(" | ")}`);
+      }
+      const queries = await Promise.all(
+        [qRaw, ...searchQueries].map(async (text) => ({
+          text,
+          embedding: await getEmbedding(text),
+        }))
+      );
 
       // NEW: retrieve QA matches + context chunks
-      const { qaMatches, contextMatches } = await retrieveMatchesWithContext(
-        emb,
-        TOP_K,
-        5,
-        qRaw
+      const { qaMatches, contextMatches } = await retrieveMatchesForQueries(
+        kbIndexes,
+        queries,
+        profile.topK,
+        profile.contextLimit,
+        profile.minScore,
+        profile
       );
 
-      const matches = qaMatches || [];
-
-      // strict first, then fallback like chat route
-      let good = matches.filter(
-        (m: any) => (m.score ?? 0) >= MIN_SCORE && m.answer
+      // strict first, then the profile's fallback (same as the chat route)
+      const { matches: good, fellBack } = selectProfileMatches(
+        qaMatches || [],
+        profile
       );
-
-      if (good.length === 0 && matches && matches.length > 0) {
+      if (fellBack) {
         console.log(
-          "[REPORT] No matches >= MIN_SCORE; falling back to top matches for question:",
+          `[REPORT] No matches >= ${profile.minScore}; falling back to top matches for question:`,
           qRaw
         );
-        good = matches.filter((m: any) => m.answer);
       }
 
       const seen = new Set<string>();
@@ -418,10 +472,15 @@ export async function POST(req: NextRequest) {
         deduped.push(m);
       }
 
+      // Optional LLM reranking: drops weak candidates, reorders the rest
+      const ranked = profile.rerank
+        ? await rerankMatches(qRaw, deduped, profile.rerankMinScore)
+        : deduped;
+
       // Build candidate block: QA answers + context excerpts
       let qaBlock = "(none)";
-      if (deduped.length > 0) {
-        qaBlock = deduped
+      if (ranked.length > 0) {
+        qaBlock = ranked
           .map(
             (m, idx) =>
               "[KB Answer " +
@@ -435,7 +494,11 @@ export async function POST(req: NextRequest) {
       }
 
       let contextBlock = "";
-      const ctxSlices = (contextMatches || []).slice(0, 5);
+      // Already limited to the profile's contextLimit by retrieval
+      const ctxTop = contextMatches || [];
+      const ctxSlices = profile.rerank
+        ? await rerankMatches(qRaw, ctxTop, profile.rerankMinScore)
+        : ctxTop;
       if (ctxSlices.length > 0) {
         contextBlock =
           "Relevant contract/context excerpts:\n\n" +
@@ -484,7 +547,7 @@ export async function POST(req: NextRequest) {
       let aiAnswer = "Information not found in KB.";
 
       try {
-        if (deduped.length > 0 || ctxSlices.length > 0) {
+        if (ranked.length > 0 || ctxSlices.length > 0) {
           const resp = await fetch(
             "https://api.openai.com/v1/chat/completions",
             {
@@ -523,17 +586,18 @@ export async function POST(req: NextRequest) {
       }
 
       const contextual: MatchItem[] =
-        deduped.length > 0
+        ranked.length > 0
           ? [
               {
                 source:
-                  deduped[0].source || deduped[0].origin || "Unknown source",
-                snippet: safeSnippet(deduped[0].answer),
+                  ranked[0].source || ranked[0].origin || "Unknown source",
+                snippet: safeSnippet(ranked[0].answer),
+                rerankScore: ranked[0].rerankScore,
               },
             ]
           : [];
 
-      const lexicalSorted = [...deduped].sort(
+      const lexicalSorted = [...ranked].sort(
         (a, b) => (b.lexicalScore || 0) - (a.lexicalScore || 0)
       );
 
@@ -544,6 +608,7 @@ export async function POST(req: NextRequest) {
           rawText.push({
             source: m0.source || m0.origin || "Unknown source",
             snippet: safeSnippet(m0.answer),
+            rerankScore: m0.rerankScore,
           });
         } else {
           for (const m of lexicalSorted) {
@@ -554,6 +619,7 @@ export async function POST(req: NextRequest) {
             rawText.push({
               source: m.source || m.origin || "Unknown source",
               snippet: snip,
+              rerankScore: m.rerankScore,
             });
             break;
           }
@@ -563,15 +629,26 @@ export async function POST(req: NextRequest) {
       const contextChunks: MatchItem[] = (ctxSlices || []).map((c) => ({
         source: c.source || c.origin || "Unknown source",
         snippet: safeSnippet(c.content || c.answer || c.question || ""),
+        rerankScore: c.rerankScore,
       }));
 
       const sourcesUsedSet = new Set<string>();
+      // With several KBs, say which one each source came from
+      const sourceLabel = (m: any) => {
+        const src = norm(m.source || m.origin || "Unknown source");
+        return kbNames.length > 1 && m.kb ? `${m.kb}: ${src}` : src;
+      };
 
-      for (const m of deduped) {
-        sourcesUsedSet.add(norm(m.source || m.origin || "Unknown source"));
+      for (const m of ranked) {
+        sourcesUsedSet.add(sourceLabel(m));
       }
       for (const c of ctxSlices) {
-        sourcesUsedSet.add(norm(c.source || c.origin || "Unknown source"));
+        sourcesUsedSet.add(sourceLabel(c));
+      }
+
+      const draftSources = new Set<string>();
+      for (const m of [...ranked, ...ctxSlices]) {
+        if (m.lifecycle === "draft") draftSources.add(sourceLabel(m));
       }
 
       items.push({
@@ -581,6 +658,8 @@ export async function POST(req: NextRequest) {
         contextualMatches: contextual,
         rawTextMatches: rawText,
         contextChunks,
+        draftSources: Array.from(draftSources),
+        searchQueries,
       });
     }
 
@@ -616,6 +695,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       ok: true,
       totalQuestions: items.length,
+      draftAnswers: items.filter((x) => x.draftSources?.length).length,
       zip: {
         filename: base + "_ALL_REPORTS.zip",
         mime: "application/zip",
@@ -624,6 +704,10 @@ export async function POST(req: NextRequest) {
     });
   } catch (err: any) {
     console.error("GEN_REPORT_ERROR", err);
-    return NextResponse.json({ ok: false, error: err.message });
+    // Unknown KB (KbRegistryError) or profile (KbProfileError) names are 4xx
+    return NextResponse.json(
+      { ok: false, error: err.message },
+      { status: err.status || 500 }
+    );
   }
 }
@@ -3,14 +3,38 @@ export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { parseUnified } from "@/lib/unifiedParser";
-import { getEmbedding } from "@/lib/embed";
-import { loadKb, saveKb, KBItem } from "@/lib/kb";
+import { embedText } from "@/lib/embed";
+import {
+  loadKb,
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  KbConflictError,
+  KBItem,
+} from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import {
+  findKbDocumentByHash,
+  hashDocument,
+  registerKbDocument,
+  uploadKbDocument,
+} from "@/lib/kbDocuments";
+import { createStagingBatch } from "@/lib/kbStaging";
+import { withRequestKb } from "@/lib/kbRegistry";
 
 function norm(s: any) {
   return (s ?? "").toString().replace(/\s+/g, " ").trim();
 }
 
+// ?kb=<name> selects a named KB (default KB when omitted);
+// ?stage=1 (or a `stage` form field) stages the chunks for review first
 export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => ingestContext(req));
+}
+
+async function ingestContext(req: NextRequest) {
   console.log("🚀 [INGEST-CONTEXT] route triggered");
   try {
     const form = await req.formData();
@@ -41,8 +65,38 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    // The same bytes again: skip unless the caller insists (form field force)
+    const duplicate = await findKbDocumentByHash(hashDocument(buf), "context");
+    if (duplicate && !form.get("force")) {
+      console.log(
+        "♻️ [INGEST-CONTEXT] Already ingested as document " + duplicate.id
+      );
+      return NextResponse.json({
+        ok: true,
+        added: 0,
+        duplicate: true,
+        document: duplicate,
+        note: `This file was already ingested as "${duplicate.filename}" on ${duplicate.ingestedAt}.`,
+      });
+    }
+
     const existing = (await loadKb()) || [];
 
+    const doc = await uploadKbDocument(
+      buf,
+      filename,
+      "context",
+      file.type || "application/octet-stream"
+    );
+    console.log("📤 Uploaded source: " + doc.url);
+
     const contextItems: KBItem[] = [];
 
     for (const row of parsed) {
@@ -56,20 +110,37 @@ export async function POST(req: NextRequest) {
         continue;
       }
 
-      const embedding = await getEmbedding(text);
-
       const item: KBItem = {
+        id: newKbId(),
         kind: "context",
         content: text,
         source: srcCell || baseSource,
         origin: "context-upload",
-        embedding,
+        sourceFile: filename,
+        docId: doc.id,
+        status: "draft",
       };
-
       contextItems.push(item);
     }
 
+    // Staging: park the chunks for review instead of writing the KB
+    if (
+      contextItems.length &&
+      (form.get("stage") || req.nextUrl.searchParams.get("stage"))
+    ) {
+      const batch = await createStagingBatch(
+        doc,
+        contextItems.map((x) => ({ content: x.content, source: x.source! }))
+      );
+      return NextResponse.json({ ok: true, added: 0, staged: true, batch });
+    }
+
+    for (const item of contextItems) {
+      setKbEmbedding(item, await embedText(kbEmbeddingText(item)));
+    }
+
     if (!contextItems.length) {
+      await registerKbDocument(doc);
       return NextResponse.json({
         ok: true,
         added: 0,
@@ -78,24 +149,32 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    const updated = [...existing, ...contextItems];
+    // Pure append, so a concurrent write is handled by reloading and
+    // appending again.
+    const { result: total, saved } = await mutateKb((kb) => {
+      kb.push(...contextItems);
+      return kb.length;
+    }, { audit: auditContext(req, "/api/ingest-context", "ingest-context") });
+    if (!saved.ok) throw new Error(saved.error);
 
-    await saveKb(updated);
+    doc.rows = contextItems.length;
+    await registerKbDocument(doc);
 
     console.log(
-      `✅ [INGEST-CONTEXT] Added ${contextItems.length} context chunks. New KB size: ${updated.length}`
+      `✅ [INGEST-CONTEXT] Added ${contextItems.length} context chunks. New KB size: ${total}`
     );
 
     return NextResponse.json({
       ok: true,
       added: contextItems.length,
-      total: updated.length,
+      total,
+      documentId: doc.id,
     });
   } catch (err: any) {
     console.error("❌ INGEST-CONTEXT ERROR", err);
     return NextResponse.json(
       { ok: false, error: err.message || "Unknown error" },
-      { status: 500 }
+      { status: err instanceof KbConflictError ? 409 : 500 }
     );
   }
 }
@@ -1,15 +1,31 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
-import { put } from "@vercel/blob";
 import { parseUnified } from "@/lib/unifiedParser";
-import { getEmbedding } from "@/lib/embed";
+import { embedText } from "@/lib/embed";
+import {
+  loadKb,
+  mutateKb,
+  snapshotKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  KbConflictError,
+} from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import {
+  findKbDocumentByFilename,
+  findKbDocumentByHash,
+  getKbDocument,
+  hashDocument,
+  registerKbDocument,
+  uploadKbDocument,
+} from "@/lib/kbDocuments";
+import { reingestKbDocument } from "@/lib/kbReingest";
+import { createStagingBatch } from "@/lib/kbStaging";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
 
-const BLOB_BASE_URL =
-  "https://ynyzmdodop38gqsz.public.blob.vercel-storage.com";
-const BLOB_TOKEN =
-  "vercel_blob_rw_YnyZMdOdop38gqSz_5D6vQd4WlLmEGx76qZpzxpSfne7Ms4";
-const KB_PATH = "kb.json";
 const CHUNK_SIZE = 50;
 const PARALLEL = 10;
 
@@ -22,8 +38,23 @@ function normalize(s: string) {
 function keyFor(q: string, a: string, src: string) {
   return normalize(q) + "|" + normalize(a) + "|" + normalize(src);
 }
+function existingKey(e: any) {
+  return keyFor(e.question || "", e.answer || "", e.source || "unknown-source");
+}
+
+function staged(req: NextRequest, form: FormData) {
+  return !!form.get("stage") || !!req.nextUrl.searchParams.get("stage");
+}
 
+// ?kb=<name> selects a named KB (default KB when omitted);
+// ?stage=1 (or a `stage` form field) stages the rows for review first
+// `replaces=<documentId>` or `reingest` (form fields; ?reingest=1 too)
+// ingest the file as a new version of an earlier document
 export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => ingest(req));
+}
+
+async function ingest(req: NextRequest) {
   console.log("🚀 [INGEST] route triggered");
   try {
     const form = await req.formData();
@@ -35,6 +66,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const audit = auditContext(req, "/api/ingest", "ingest");
     const buf = Buffer.from(await file.arrayBuffer());
     const filename = file.name || "upload.bin";
     console.log("📄 Processing file: " + filename);
@@ -49,13 +81,50 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Always upload the raw source file so we have it
-    const uploaded = await put("uploads/" + filename, buf, {
-      access: "public",
-      token: BLOB_TOKEN,
-      addRandomSuffix: true,
-    });
-    console.log("📤 Uploaded source: " + uploaded.url);
+    const store = getKbStore();
+    if (!store.writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    // The same bytes again: skip unless the caller insists (form field force)
+    const duplicate = await findKbDocumentByHash(hashDocument(buf), "qa");
+    if (duplicate && !form.get("force")) {
+      console.log("♻️ [INGEST] Already ingested as document " + duplicate.id);
+      return NextResponse.json({
+        ok: true,
+        skipped: true,
+        duplicate: true,
+        document: duplicate,
+        total: 0,
+        reason: `This file was already ingested as "${duplicate.filename}" on ${duplicate.ingestedAt}. Knowledge Base was not modified.`,
+      });
+    }
+
+    // A new version of a registered document, only when asked for: the
+    // form field `replaces` names it, `reingest` means the latest document
+    // with the same filename. Anything else is a new document.
+    const replacesId = norm(form.get("replaces"));
+    const reingest =
+      !!form.get("reingest") || !!req.nextUrl.searchParams.get("reingest");
+    const previous = replacesId
+      ? await getKbDocument(replacesId)
+      : reingest
+      ? await findKbDocumentByFilename(filename, "qa")
+      : null;
+    if ((replacesId || reingest) && !previous) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: replacesId
+            ? `Document not found: ${replacesId}`
+            : `No ingested document named "${filename}" to re-ingest`,
+        },
+        { status: 404 }
+      );
+    }
 
     // Only consider rows with a meaningful answer
     const answered = parsed.filter((r: any) => {
@@ -90,36 +159,57 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Load existing KB
-    const kbUrl = BLOB_BASE_URL + "/" + KB_PATH + "?t=" + Date.now();
-    let existing: any[] = [];
-    try {
-      const res = await fetch(kbUrl, { cache: "no-store" });
-      if (res.ok) {
-        existing = await res.json();
-        console.log(
-          "📚 Loaded existing KB with " + existing.length + " entries"
-        );
-      } else {
-        console.log("ℹ️ Existing KB fetch not OK, starting fresh");
-      }
-    } catch {
-      console.log("ℹ️ No existing KB found or fetch failed, starting fresh");
-    }
-    if (!Array.isArray(existing)) existing = [];
-
-    const seen = new Set(
-      existing.map((e: any) =>
-        keyFor(
-          e.question || "",
-          e.answer || "",
-          e.source || "unknown-source"
-        )
-      )
+    // Upload the raw source file so we have it (only once it has answers,
+    // so a rejected file leaves no upload or registry entry behind)
+    const doc = await uploadKbDocument(
+      buf,
+      filename,
+      "qa",
+      file.type || "application/octet-stream"
     );
+    console.log("📤 Uploaded source: " + doc.url);
+
+    // Staging: park the rows for review instead of writing the KB
+    if (staged(req, form)) {
+      const batch = await createStagingBatch(
+        doc,
+        answered.map((r: any) => ({
+          question: norm(r.question),
+          answer: norm(r.answer),
+          source: norm(r.source) || filename,
+        }))
+      );
+      return NextResponse.json({
+        ok: true,
+        skipped: false,
+        staged: true,
+        batch,
+      });
+    }
+
+    if (previous) {
+      console.log(
+        `🔁 [INGEST] New version of document ${previous.id} ("${previous.filename}")`
+      );
+      const summary = await reingestKbDocument(previous, doc, answered, audit);
+      return NextResponse.json({
+        ok: true,
+        skipped: false,
+        reingested: true,
+        total: summary.added,
+        ...summary,
+        documentId: previous.id,
+      });
+    }
+
+    // Load existing KB
+    const existing: any[] = await loadKb();
+    console.log("📚 Loaded existing KB with " + existing.length + " entries");
+
+    const seen = new Set(existing.map(existingKey));
 
     // Only add NEW answered rows
-    const newRows = answered.filter((r: any) => {
+    const newRows: any[] = answered.filter((r: any) => {
       const q = norm(r.question);
       const a = norm(r.answer);
       const src = r.source || filename;
@@ -133,16 +223,20 @@ export async function POST(req: NextRequest) {
     console.log("🧩 Will embed " + newRows.length + " new answered rows");
 
     if (!newRows.length) {
+      await registerKbDocument(doc);
       return NextResponse.json({
         ok: true,
         skipped: false,
         total: 0,
+        documentId: doc.id,
         reason: "All answered rows were already present in KB.",
       });
     }
 
     // Embed & append in chunks
     let added = 0;
+    let kbSize = existing.length;
+    let embedFailed = 0;
 
     for (let i = 0; i < newRows.length; i += CHUNK_SIZE) {
       const chunk = newRows.slice(i, i + CHUNK_SIZE);
@@ -151,52 +245,66 @@ export async function POST(req: NextRequest) {
         const batch = chunk.slice(j, j + PARALLEL);
 
         const embeds = await Promise.all(
-          batch.map((r: any) =>
-            getEmbedding(norm(r.question) + "\n" + norm(r.answer))
-          )
+          batch.map((r: any) => embedText(kbEmbeddingText(r)))
         );
 
         for (let k = 0; k < batch.length; k++) {
+          batch[k].id = newKbId();
           batch[k].question = norm(batch[k].question);
           batch[k].answer = norm(batch[k].answer);
           batch[k].source = batch[k].source || filename;
-          batch[k].embedding = embeds[k];
+          batch[k].sourceFile = filename;
+          batch[k].docId = doc.id;
+          batch[k].status = "draft";
+          setKbEmbedding(batch[k], embeds[k]);
+          if (!embeds[k].vector.length) embedFailed++;
         }
       }
 
-      existing.push(...chunk);
-      added += chunk.length;
+      // Append against the freshest KB; if someone else saved meanwhile,
+      // mutateKb reloads and we re-check duplicates before appending again.
+      const { result: appended, saved } = await mutateKb((kb) => {
+        const present = new Set(kb.map(existingKey));
+        const fresh = chunk.filter((r: any) => !present.has(existingKey(r)));
+        kb.push(...fresh);
+        kbSize = kb.length;
+        return fresh.length;
+      }, { audit, snapshot: false });
+      if (!saved.ok) throw new Error(saved.error);
 
-      await put(KB_PATH, JSON.stringify(existing, null, 2), {
-        access: "public",
-        token: BLOB_TOKEN,
-        addRandomSuffix: false,
-        allowOverwrite: true,
-        contentType: "application/json",
-      });
+      added += appended;
 
-      console.log(
-        "💾 Saved partial KB batch. Current KB size: " + existing.length
-      );
+      console.log("💾 Saved partial KB batch. Current KB size: " + kbSize);
     }
 
     console.log(
       "✅ KB updated successfully – added " +
         added +
         " answered entries. New total: " +
-        existing.length
+        kbSize
     );
+    // One snapshot for the whole upload rather than one per chunk
+    if (added) await snapshotKb();
+    doc.rows = added;
+    await registerKbDocument(doc);
+    if (embedFailed) {
+      console.warn(
+        `⚠️ ${embedFailed} rows saved without an embedding; see /api/kb/embedding-health`
+      );
+    }
 
     return NextResponse.json({
       ok: true,
       skipped: false,
       total: added, // NEW entries count
+      embedFailed,
+      documentId: doc.id,
     });
   } catch (err: any) {
     console.error("❌ INGEST_ERROR", err);
     return NextResponse.json(
       { ok: false, error: err.message || "Unknown" },
-      { status: 500 }
+      { status: err instanceof KbConflictError ? 409 : 500 }
     );
   }
 }
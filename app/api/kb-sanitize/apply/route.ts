@@ -0,0 +1,61 @@
+// app/api/kb-sanitize/apply/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { applyKbSanitize, KbConflictError } from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// POST /api/kb-sanitize/apply?kb=<name>
+// { version?, remove: [ids], normalize: [ids] } – the approved part of a
+// /api/kb-sanitize?dryRun=1 result. With `version` the apply fails with 409
+// if the KB changed since the dry run.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => apply(req));
+}
+
+async function apply(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json();
+    const remove = Array.isArray(body?.remove) ? body.remove : [];
+    const normalize = Array.isArray(body?.normalize) ? body.normalize : [];
+    if (!remove.length && !normalize.length) {
+      return NextResponse.json(
+        { ok: false, error: "`remove` or `normalize` ids are required." },
+        { status: 400 }
+      );
+    }
+
+    const { removed, normalized, missing, saved } = await applyKbSanitize(
+      {
+        remove,
+        normalize,
+        expectedVersion:
+          typeof body?.version === "string" ? body.version : undefined,
+      },
+      auditContext(req, "/api/kb-sanitize/apply", "sanitize", body)
+    );
+    return NextResponse.json({
+      ok: true,
+      removed,
+      normalized,
+      missing,
+      version: saved.version,
+    });
+  } catch (err: any) {
+    console.error("❌ KB_SANITIZE_APPLY_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbConflictError ? 409 : 500 }
+    );
+  }
+}
@@ -2,11 +2,29 @@ export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
-import { loadKb, saveKb, sanitizeKb } from "@/lib/kb";
+import {
+  loadKbVersioned,
+  saveKb,
+  sanitizeKb,
+  KbConflictError,
+} from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { parseKbSanitizeRules } from "@/lib/kbSanitizeRules";
 
-export async function POST(_req: NextRequest) {
+// ?kb=<name> selects a named KB (default KB when omitted)
+// ?rules=garbage,pii limits the rule filters (default KB_SANITIZE_RULES, or
+// all rules)
+// ?dryRun=1 saves nothing and returns the rows that would be removed or
+// normalized, plus the KB version to pass to /api/kb-sanitize/apply
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => sanitize(req));
+}
+
+async function sanitize(req: NextRequest) {
   try {
-    const kb = await loadKb();
+    const { items: kb, version } = await loadKbVersioned();
     if (!Array.isArray(kb) || kb.length === 0) {
       return NextResponse.json(
         { ok: false, error: "KB empty or missing" },
@@ -15,31 +33,60 @@ export async function POST(_req: NextRequest) {
     }
 
     const before = kb.length;
-    const maybe = sanitizeKb(kb, {
+    const dryRun = ["1", "true"].includes(
+      req.nextUrl.searchParams.get("dryRun") || ""
+    );
+    const rules = parseKbSanitizeRules(
+      req.nextUrl.searchParams.get("rules") ?? process.env.KB_SANITIZE_RULES
+    );
+    const { items: cleaned, dropped, normalized } = await sanitizeKb(kb, {
       minAnswerLen: 8,
       useGPT: process.env.CLEAN_USE_GPT === "true",
       openaiKey: process.env.OPENAI_API_KEY,
+      rules,
     });
 
-    const cleaned =
-      (maybe as any)?.then ? await (maybe as Promise<any[]>) : (maybe as any[]);
+    const reasons: Record<string, number> = {};
+    for (const d of dropped) reasons[d.reason] = (reasons[d.reason] || 0) + 1;
 
-    await saveKb(cleaned); // no-op if no blob write token available
+    if (dryRun) {
+      return NextResponse.json({
+        ok: true,
+        dryRun: true,
+        version,
+        before,
+        after: cleaned.length,
+        rules,
+        reasons,
+        dropped,
+        normalized,
+      });
+    }
+
+    // Not retried on conflict: the cleaned list was computed from the old
+    // KB (possibly by GPT), so the caller should rerun against the new one.
+    // saveKb is a no-op if the KB store is read-only
+    await saveKb(cleaned, {
+      expectedVersion: version,
+      audit: auditContext(req, "/api/kb-sanitize", "sanitize"),
+    });
 
     return NextResponse.json({
       ok: true,
       before,
       after: cleaned.length,
       removed: before - cleaned.length,
-      writeMode: !!(
-        process.env.BLOB_READ_WRITE_TOKEN || process.env.VERCEL_BLOB_READ_WRITE_TOKEN
-      ),
+      rules,
+      reasons,
+      dropped,
+      normalized: normalized.length,
+      writeMode: getKbStore().writable,
     });
   } catch (err: any) {
     console.error("❌ KB_SANITIZE_ERROR", err);
     return NextResponse.json(
       { ok: false, error: err.message || "Unknown error" },
-      { status: 500 }
+      { status: err instanceof KbConflictError ? 409 : 500 }
     );
   }
 }
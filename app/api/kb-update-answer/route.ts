@@ -2,20 +2,31 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
-import { getEmbedding } from "@/lib/embed";
-import { updateOrInsertAnswer } from "@/lib/kb";
+import {
+  updateOrInsertAnswer,
+  KbConflictError,
+  KbNotFoundError,
+} from "@/lib/kb";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
 
 function norm(s: any) {
   return (s ?? "").toString().replace(/\s+/g, " ").trim();
 }
 
+// ?kb=<name> selects a named KB (default KB when omitted)
 export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => updateAnswer(req));
+}
+
+async function updateAnswer(req: NextRequest) {
   try {
     const body = await req.json();
 
     const questionRaw = norm(body.question);
     const answerRaw = norm(body.answer);
     const sourceRaw = body.source ? norm(body.source) : undefined;
+    const idRaw = body.id ? norm(body.id) : undefined;
 
     if (!questionRaw || !answerRaw) {
       return NextResponse.json(
@@ -31,16 +42,18 @@ export async function POST(req: NextRequest) {
       "[KB-UPDATE-ANSWER] Updating answer for question:",
       questionRaw,
       "source:",
-      sourceRaw || "(any)"
+      sourceRaw || "(any)",
+      "id:",
+      idRaw || "(match by question)"
     );
 
-    const embedding = await getEmbedding(questionRaw + "\n" + answerRaw);
-
+    // Embedded inside, from the row's final text
     const updated = await updateOrInsertAnswer(
       questionRaw,
       answerRaw,
       sourceRaw,
-      embedding
+      idRaw,
+      auditContext(req, "/api/kb-update-answer", "kb-update-answer", body)
     );
 
     return NextResponse.json({
@@ -51,7 +64,12 @@ export async function POST(req: NextRequest) {
     console.error("❌ KB-UPDATE-ANSWER ERROR", err);
     return NextResponse.json(
       { ok: false, error: err.message || "Unknown error" },
-      { status: 500 }
+      {
+        status:
+          err instanceof KbNotFoundError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
     );
   }
 }
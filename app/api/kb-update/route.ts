@@ -2,41 +2,41 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { put } from "@vercel/blob";
-import OpenAI from "openai";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-
-const BLOB_BASE_URL =
-  process.env.BLOB_BASE_URL || "https://ynyzmdodop38gqsz.public.blob.vercel-storage.com";
-const BLOB_TOKEN =
-  process.env.BLOB_READWRITE_TOKEN ||
-  "vercel_blob_rw_YnyZMdOdop38gqSz_5D6vQd4WlLmEGx76qZpzxpSfne7Ms4";
-const KB_PATH = "kb.json";
-
-async function getEmbedding(text: string): Promise<number[]> {
-  try {
-    const res = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text.slice(0, 8000),
-    });
-    return res.data[0].embedding;
-  } catch (err) {
-    console.error("❌ EMBED_ERROR", err);
-    return [];
-  }
-}
+import { embedText } from "@/lib/embed";
+import {
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  setKbLifecycle,
+  KbConflictError,
+  KBItem,
+} from "@/lib/kb";
+import { KbItemError } from "@/lib/kbItems";
+import { auditContext, KbAuditSource } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
 
 function normalize(s: string) {
   return (s || "").toLowerCase().replace(/\s+/g, " ").trim();
 }
 
+// ?kb=<name> selects a named KB (default KB when omitted)
 export async function POST(req: Request) {
+  return withRequestKb(req, () => updateKb(req));
+}
+
+async function updateKb(req: Request) {
   try {
     const body = await req.json();
     const question = (body.question || "").trim();
     const answer = (body.answer || "").trim();
     const source = body.source || "manual";
+    const id = typeof body.id === "string" ? body.id.trim() : "";
+    // Callers say which UI path they are (chat command vs. "save to KB")
+    const via: KbAuditSource =
+      body.via === "chat-command" || body.via === "chat-save"
+        ? body.via
+        : "kb-update";
 
     if (!question || !answer)
       return NextResponse.json(
@@ -44,48 +44,62 @@ export async function POST(req: Request) {
         { status: 400 }
       );
 
-    const embedding = await getEmbedding(`${question}\n${answer}`);
-    const kbUrl = `${BLOB_BASE_URL}/${KB_PATH}`;
-    let kb: any[] = [];
+    const embedding = await embedText(kbEmbeddingText({ question, answer }));
+    const normQ = normalize(question);
 
-    try {
-      const res = await fetch(kbUrl, { cache: "no-store" });
-      if (res.ok) kb = await res.json();
-    } catch (err) {
-      console.log("ℹ️ No existing KB found");
-    }
+    // Reapplying the same edit to a freshly loaded KB is safe, so
+    // conflicting writes are retried automatically.
+    const { result, saved } = await mutateKb((kb) => {
+      // An explicit id pins the update to exactly one row; without it we fall
+      // back to the first row whose normalized question matches.
+      let target: KBItem | undefined = id
+        ? kb.find((item) => item.id === id)
+        : kb.find((item) => normalize(item.question) === normQ);
 
-    const normQ = normalize(question);
-    let updated = false;
+      if (id && !target) {
+        throw new KbItemError(`KB item not found: ${id}`, 404);
+      }
 
-    // Update if existing, else add new
-    for (const item of kb) {
-      if (normalize(item.question) === normQ) {
-        item.answer = answer;
-        item.embedding = embedding;
-        item.source = source;
-        updated = true;
-        console.log(`✏️ Updated KB entry for: ${question}`);
-        break;
+      if (target) {
+        target.question = question;
+        target.answer = answer;
+        target.source = source;
+        setKbLifecycle(target, "draft"); // new text needs another review
+        setKbEmbedding(target, embedding);
+        console.log(`✏️ Updated KB entry ${target.id} for: ${question}`);
+      } else {
+        target = {
+          id: newKbId(),
+          question,
+          answer,
+          source,
+          status: "draft",
+        };
+        setKbEmbedding(target, embedding);
+        kb.push(target);
+        console.log(`➕ Added new KB entry ${target.id}: ${question}`);
       }
-    }
+      return { id: target.id, total: kb.length };
+    }, { audit: auditContext(req, "/api/kb-update", via, body) });
 
-    if (!updated) {
-      kb.push({ question, answer, embedding, source });
-      console.log(`➕ Added new KB entry: ${question}`);
+    if (!saved.ok) {
+      return NextResponse.json(
+        { ok: false, error: saved.error },
+        { status: 503 }
+      );
     }
 
-    await put(KB_PATH, JSON.stringify(kb, null, 2), {
-      access: "public",
-      addRandomSuffix: false,
-      allowOverwrite: true,
-      token: BLOB_TOKEN,
-      contentType: "application/json",
-    });
-
-    return NextResponse.json({ ok: true, total: kb.length });
+    return NextResponse.json({ ok: true, ...result });
   } catch (err: any) {
     console.error("❌ KB_UPDATE_ERROR", err);
-    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+    return NextResponse.json(
+      { ok: false, error: err.message },
+      {
+        status:
+          err instanceof KbConflictError || err instanceof KbItemError
+            ? err.status
+            : 500,
+      }
+    );
   }
 }
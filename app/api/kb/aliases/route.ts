@@ -0,0 +1,46 @@
+// app/api/kb/aliases/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { countAliasedRows } from "@/lib/kbReindex";
+import {
+  loadKbAliases,
+  saveKbAliases,
+  KbAliasError,
+} from "@/lib/kbAliases";
+
+// The dictionary is shared by every KB, so there is no ?kb= here.
+
+// GET /api/kb/aliases -> { aliases: [{ term, expansion }] }
+export async function GET() {
+  try {
+    const aliases = await loadKbAliases();
+    return NextResponse.json({ ok: true, aliases });
+  } catch (err: any) {
+    console.error("❌ KB_ALIASES_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/kb/aliases { aliases: [{ term, expansion }] }
+// Replaces the dictionary and reports, per KB, how many rows' expanded text
+// changed. Those rows are now stale; POST /api/reindex?kb=<name> re-embeds
+// them (the /aliases page does this).
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { before, aliases } = await saveKbAliases(body?.aliases);
+    const reindex = await countAliasedRows(before, aliases);
+    return NextResponse.json({ ok: true, aliases, reindex });
+  } catch (err: any) {
+    console.error("❌ KB_ALIASES_SAVE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbAliasError ? err.status : 500 }
+    );
+  }
+}
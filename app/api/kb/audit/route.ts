@@ -0,0 +1,49 @@
+// app/api/kb/audit/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { queryKbAudit } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// GET /api/kb/audit?itemId=&source=&actor=&from=&to=&limit=&kb=<name>
+// `from` / `to` accept ISO dates or date-times; a bare `to` date is inclusive.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => queryAudit(req));
+}
+
+async function queryAudit(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const from = sp.get("from") || undefined;
+  const to = sp.get("to") || undefined;
+
+  for (const [name, value] of [
+    ["from", from],
+    ["to", to],
+  ]) {
+    if (value && isNaN(Date.parse(value))) {
+      return NextResponse.json(
+        { ok: false, error: `\`${name}\` must be an ISO date.` },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const entries = await queryKbAudit({
+      itemId: sp.get("itemId") || undefined,
+      source: sp.get("source") || undefined,
+      actor: sp.get("actor") || undefined,
+      from,
+      to,
+      limit: Number(sp.get("limit") || 200),
+    });
+    return NextResponse.json({ ok: true, count: entries.length, entries });
+  } catch (err: any) {
+    console.error("❌ KB_AUDIT_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
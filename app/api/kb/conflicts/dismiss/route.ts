@@ -0,0 +1,38 @@
+// app/api/kb/conflicts/dismiss/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getKbStore } from "@/lib/kbStore";
+import { withRequestKb } from "@/lib/kbRegistry";
+import {
+  dismissKbConflict,
+  KbContradictionError,
+} from "@/lib/kbContradictions";
+
+// POST /api/kb/conflicts/dismiss { conflictId }
+// Not a real conflict: hide it until one of its answers changes.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => dismiss(req));
+}
+
+async function dismiss(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json();
+    await dismissKbConflict(body?.conflictId);
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("❌ KB_CONFLICT_DISMISS_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbContradictionError ? err.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// app/api/kb/conflicts/resolve/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { publicKbItem } from "@/lib/kbItems";
+import {
+  resolveKbConflict,
+  KbContradictionError,
+} from "@/lib/kbContradictions";
+
+// POST /api/kb/conflicts/resolve { winnerId, loserIds }
+// Approves the winning row and deprecates the others.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => resolve(req));
+}
+
+async function resolve(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json();
+    const { winner, deprecated, version } = await resolveKbConflict(
+      body,
+      auditContext(req, "/api/kb/conflicts/resolve", "conflict-resolve", body)
+    );
+    return NextResponse.json({
+      ok: true,
+      winner: publicKbItem(winner),
+      deprecated,
+      version,
+    });
+  } catch (err: any) {
+    console.error("❌ KB_CONFLICT_RESOLVE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      {
+        status:
+          err instanceof KbContradictionError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
+    );
+  }
+}
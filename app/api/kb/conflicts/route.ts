@@ -0,0 +1,30 @@
+// app/api/kb/conflicts/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { findKbConflicts } from "@/lib/kbContradictions";
+
+// GET /api/kb/conflicts?threshold=0.85&limit=&kb=<name>
+// Groups of matching rows whose numbers, years or yes/no answers disagree.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listConflicts(req));
+}
+
+async function listConflicts(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const result = await findKbConflicts({
+      threshold: Number(sp.get("threshold")) || undefined,
+      limit: Number(sp.get("limit")) || undefined,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("❌ KB_CONFLICTS_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
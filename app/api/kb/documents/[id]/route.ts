@@ -0,0 +1,38 @@
+// app/api/kb/documents/[id]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { deleteKbDocument, KbDocumentError } from "@/lib/kbDocuments";
+
+type Ctx = { params: { id: string } };
+
+// DELETE /api/kb/documents/:id?kb=<name>
+// Removes the document, every KB row ingested from it and its raw upload.
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => deleteDocument(req, params.id));
+}
+
+async function deleteDocument(req: NextRequest, id: string) {
+  try {
+    const result = await deleteKbDocument(
+      id,
+      auditContext(req, "/api/kb/documents", "document-delete")
+    );
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("❌ KB_DOCUMENT_DELETE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      {
+        status:
+          err instanceof KbDocumentError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
+    );
+  }
+}
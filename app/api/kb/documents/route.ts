@@ -0,0 +1,26 @@
+// app/api/kb/documents/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { listKbDocuments } from "@/lib/kbDocuments";
+
+// GET /api/kb/documents?kb=<name>
+// Source files ingested into the KB, newest first.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listDocuments());
+}
+
+async function listDocuments() {
+  try {
+    const documents = await listKbDocuments();
+    return NextResponse.json({ ok: true, documents });
+  } catch (err: any) {
+    console.error("❌ KB_DOCUMENTS_LIST_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/kb/duplicates/merge/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { mergeKbDuplicates, KbDuplicateError } from "@/lib/kbDuplicates";
+import { publicKbItem } from "@/lib/kbItems";
+
+// POST /api/kb/duplicates/merge { keepId, mergeIds, answer? }
+// Keeps one row, records the others' questions as its aliases and removes
+// them. `answer` optionally replaces the kept row's answer.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => merge(req));
+}
+
+async function merge(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json();
+    const { item, merged, version } = await mergeKbDuplicates(
+      body,
+      auditContext(req, "/api/kb/duplicates/merge", "duplicate-merge", body)
+    );
+    return NextResponse.json({
+      ok: true,
+      item: publicKbItem(item),
+      merged,
+      version,
+    });
+  } catch (err: any) {
+    console.error("❌ KB_DUPLICATES_MERGE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      {
+        status:
+          err instanceof KbDuplicateError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/kb/duplicates/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { findKbDuplicateGroups } from "@/lib/kbDuplicates";
+
+// GET /api/kb/duplicates?threshold=0.92&limit=&kb=<name>
+// Groups of near-duplicate Q/A rows, each with a proposed canonical row.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listDuplicates(req));
+}
+
+async function listDuplicates(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const result = await findKbDuplicateGroups({
+      threshold: Number(sp.get("threshold")) || undefined,
+      limit: Number(sp.get("limit")) || undefined,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("❌ KB_DUPLICATES_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
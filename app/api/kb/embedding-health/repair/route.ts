@@ -0,0 +1,44 @@
+// app/api/kb/embedding-health/repair/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { repairKbEmbeddings } from "@/lib/kbEmbeddingHealth";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// POST /api/kb/embedding-health/repair?kb=<name> { limit? }
+// Re-embeds failed rows whose retry backoff has elapsed.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => repairEmbeddings(req));
+}
+
+async function repairEmbeddings(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = await repairKbEmbeddings({
+      limit: Number(body.limit) || undefined,
+      audit: auditContext(
+        req,
+        "/api/kb/embedding-health/repair",
+        "embedding-repair",
+        body
+      ),
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("❌ KB_EMBEDDING_REPAIR_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/kb/embedding-health/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getKbEmbeddingHealth } from "@/lib/kbEmbeddingHealth";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// GET /api/kb/embedding-health?kb=<name> -> counts of healthy / failed /
+// missing / stale embeddings, errors by type, and a sample of the failing rows
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => embeddingHealth());
+}
+
+async function embeddingHealth() {
+  try {
+    const health = await getKbEmbeddingHealth();
+    return NextResponse.json({ ok: true, ...health });
+  } catch (err: any) {
+    console.error("❌ KB_EMBEDDING_HEALTH_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/kb/export/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { currentKb } from "@/lib/kbStore";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { exportKb } from "@/lib/kbTransfer";
+
+// GET /api/kb/export?format=jsonl|xlsx&kb=<name>
+// Downloads every row of the KB (without vectors). Defaults to XLSX.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => exportRoute(req));
+}
+
+async function exportRoute(req: NextRequest) {
+  try {
+    const format =
+      req.nextUrl.searchParams.get("format") === "jsonl" ? "jsonl" : "xlsx";
+    const { body, contentType, extension } = await exportKb(format);
+    return new NextResponse(body, {
+      headers: {
+        "content-type": contentType,
+        "content-disposition": `attachment; filename="kb-${currentKb()}.${extension}"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (err: any) {
+    console.error("❌ KB_EXPORT_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// app/api/kb/import/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { importKb, KbTransferFormat } from "@/lib/kbTransfer";
+
+function formatFor(requested: unknown, filename: string): KbTransferFormat {
+  if (requested === "jsonl" || requested === "xlsx") return requested;
+  return /\.jsonl?$/i.test(filename) ? "jsonl" : "xlsx";
+}
+
+// POST /api/kb/import?kb=<name>  multipart: file, format? (jsonl | xlsx)
+// Rows with an ID update that row; rows without one are matched by their
+// question (or context text) and otherwise added. Rows are never deleted.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => importRoute(req));
+}
+
+async function importRoute(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get("file") as File | null;
+    if (!file) {
+      return NextResponse.json(
+        { ok: false, error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const format = formatFor(form.get("format"), file.name || "");
+    const buf = Buffer.from(await file.arrayBuffer());
+    const result = await importKb(
+      buf,
+      format,
+      auditContext(req, "/api/kb/import", "import")
+    );
+    return NextResponse.json({ ok: true, format, ...result });
+  } catch (err: any) {
+    console.error("❌ KB_IMPORT_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbConflictError ? err.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// app/api/kb/items/[id]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import {
+  deleteKbItem,
+  getKbItem,
+  patchKbItem,
+  KbItemError,
+} from "@/lib/kbItems";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+type Ctx = { params: { id: string } };
+
+// Clients send back the KB version they read (ETag) to get a 409 instead of
+// silently overwriting someone else's edit.
+function ifMatch(req: NextRequest): string | undefined {
+  const v = req.headers.get("if-match");
+  return v ? v.replace(/^W\//, "").replace(/"/g, "").trim() : undefined;
+}
+
+function withVersion(body: any, version: string, init?: ResponseInit) {
+  const res = NextResponse.json({ ...body, version }, init);
+  res.headers.set("etag", `"${version}"`);
+  return res;
+}
+
+function errorResponse(err: any, label: string) {
+  console.error(`❌ ${label}`, err);
+  return NextResponse.json(
+    { ok: false, error: err.message || "Unknown error" },
+    {
+      status:
+        err instanceof KbItemError || err instanceof KbConflictError
+          ? err.status
+          : 500,
+    }
+  );
+}
+
+// GET / PATCH / DELETE /api/kb/items/:id?kb=<name>
+export async function GET(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => getItem(params.id));
+}
+
+async function getItem(id: string) {
+  try {
+    const found = await getKbItem(id);
+    if (!found) {
+      return NextResponse.json(
+        { ok: false, error: `KB item not found: ${id}` },
+        { status: 404 }
+      );
+    }
+    return withVersion({ ok: true, item: found.item }, found.version);
+  } catch (err: any) {
+    return errorResponse(err, "KB_ITEM_GET_ERROR");
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => patchItem(req, params.id));
+}
+
+async function patchItem(req: NextRequest, id: string) {
+  try {
+    const body = await req.json();
+    const { item, version } = await patchKbItem(
+      id,
+      body,
+      ifMatch(req),
+      auditContext(req, `/api/kb/items/${id}`, "api", body)
+    );
+    return withVersion({ ok: true, item }, version);
+  } catch (err: any) {
+    return errorResponse(err, "KB_ITEM_PATCH_ERROR");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => deleteItem(req, params.id));
+}
+
+async function deleteItem(req: NextRequest, id: string) {
+  try {
+    const { item, version } = await deleteKbItem(
+      id,
+      ifMatch(req),
+      auditContext(req, `/api/kb/items/${id}`, "api")
+    );
+    return withVersion({ ok: true, item }, version);
+  } catch (err: any) {
+    return errorResponse(err, "KB_ITEM_DELETE_ERROR");
+  }
+}
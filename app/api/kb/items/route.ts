@@ -0,0 +1,67 @@
+// app/api/kb/items/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError, KbLifecycle, KB_LIFECYCLE_STATES } from "@/lib/kb";
+import { createKbItem, listKbItems, KbItemError } from "@/lib/kbItems";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// GET /api/kb/items?q=&kind=&source=&status=&offset=&limit=&kb=<name>
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listItems(req));
+}
+
+async function listItems(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const kind = sp.get("kind");
+    const status = sp.get("status") as KbLifecycle;
+    const page = await listKbItems({
+      q: sp.get("q") || undefined,
+      kind: kind === "qa" || kind === "context" ? kind : undefined,
+      source: sp.get("source") || undefined,
+      status: KB_LIFECYCLE_STATES.includes(status) ? status : undefined,
+      offset: Number(sp.get("offset") || 0),
+      limit: Number(sp.get("limit") || 50),
+    });
+    const res = NextResponse.json({ ok: true, ...page });
+    res.headers.set("etag", `"${page.version}"`);
+    return res;
+  } catch (err: any) {
+    console.error("❌ KB_ITEMS_LIST_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/kb/items?kb=<name>
+//   { kind?, question, answer, content?, source?, status?, validUntil? }
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => createItem(req));
+}
+
+async function createItem(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { item, version } = await createKbItem(
+      body,
+      auditContext(req, "/api/kb/items", "api", body)
+    );
+    return NextResponse.json({ ok: true, item, version }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ KB_ITEMS_CREATE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      {
+        status:
+          err instanceof KbItemError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/kb/profiles/[name]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { deleteRetrievalProfile, KbProfileError } from "@/lib/kbProfiles";
+
+type Ctx = { params: { name: string } };
+
+// DELETE /api/kb/profiles/<name>?kb=<name> -> deleting "default" restores
+// the built-in values
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => remove(params.name));
+}
+
+async function remove(name: string) {
+  try {
+    await deleteRetrievalProfile(name);
+    return NextResponse.json({ ok: true, name });
+  } catch (err: any) {
+    console.error("❌ KB_PROFILES_DELETE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbProfileError ? err.status : 500 }
+    );
+  }
+}
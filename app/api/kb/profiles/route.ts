@@ -0,0 +1,66 @@
+// app/api/kb/profiles/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import {
+  listRetrievalProfiles,
+  saveRetrievalProfile,
+  setDefaultRetrievalProfile,
+  KbProfileError,
+} from "@/lib/kbProfiles";
+
+function errorResponse(label: string, err: any) {
+  console.error(`❌ ${label}`, err);
+  return NextResponse.json(
+    { ok: false, error: err.message || "Unknown error" },
+    { status: err instanceof KbProfileError ? err.status : 500 }
+  );
+}
+
+// GET /api/kb/profiles?kb=<name> -> { defaultProfile, profiles }
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listProfiles());
+}
+
+// POST /api/kb/profiles { name, topK?, minScore?, contextLimit?, fallback?,
+// fusion?, semanticWeight?, lexicalWeight?, rrfK?, description?, default? }
+// Creates or updates a profile; `default: true` also makes it the default.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => saveProfile(req));
+}
+
+// PUT /api/kb/profiles { defaultProfile } -> switch the KB's default profile
+export async function PUT(req: NextRequest) {
+  return withRequestKb(req, () => setDefault(req));
+}
+
+async function listProfiles() {
+  try {
+    const { defaultProfile, profiles } = await listRetrievalProfiles();
+    return NextResponse.json({ ok: true, defaultProfile, profiles });
+  } catch (err: any) {
+    return errorResponse("KB_PROFILES_LIST_ERROR", err);
+  }
+}
+
+async function saveProfile(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const profile = await saveRetrievalProfile(body, body?.default === true);
+    return NextResponse.json({ ok: true, profile });
+  } catch (err: any) {
+    return errorResponse("KB_PROFILES_SAVE_ERROR", err);
+  }
+}
+
+async function setDefault(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    await setDefaultRetrievalProfile(String(body?.defaultProfile ?? ""));
+    return listProfiles();
+  } catch (err: any) {
+    return errorResponse("KB_PROFILES_DEFAULT_ERROR", err);
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/kb/snapshots/diff/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadKb, KBItem } from "@/lib/kb";
+import { publicKbItem } from "@/lib/kbItems";
+import { diffKb, loadKbSnapshot } from "@/lib/kbSnapshots";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// "current" (or an empty value) means the live kb.json
+async function resolve(id: string | null): Promise<KBItem[] | null> {
+  if (!id || id === "current") return loadKb();
+  return loadKbSnapshot(id);
+}
+
+// GET /api/kb/snapshots/diff?from=<snapshotId>&to=<snapshotId|current>
+//   &kb=<name>
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => diffSnapshots(req));
+}
+
+async function diffSnapshots(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const fromId = sp.get("from");
+    const toId = sp.get("to") || "current";
+
+    if (!fromId) {
+      return NextResponse.json(
+        { ok: false, error: "`from` snapshot id is required." },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([resolve(fromId), resolve(toId)]);
+    if (!from || !to) {
+      return NextResponse.json(
+        { ok: false, error: `Snapshot not found: ${!from ? fromId : toId}` },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffKb(from, to);
+
+    return NextResponse.json({
+      ok: true,
+      from: fromId,
+      to: toId,
+      counts: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+      },
+      added: diff.added.map(publicKbItem),
+      removed: diff.removed.map(publicKbItem),
+      changed: diff.changed.map((c) => ({
+        id: c.id,
+        fields: c.fields,
+        before: publicKbItem(c.before),
+        after: publicKbItem(c.after),
+      })),
+    });
+  } catch (err: any) {
+    console.error("❌ KB_SNAPSHOT_DIFF_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
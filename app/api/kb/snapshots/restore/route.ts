@@ -0,0 +1,64 @@
+// app/api/kb/snapshots/restore/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadKb, saveKb } from "@/lib/kb";
+import { loadKbSnapshot } from "@/lib/kbSnapshots";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// POST /api/kb/snapshots/restore?kb=<name>  { id }
+// The restore is itself a save, so it produces a new snapshot and can be
+// undone by restoring the snapshot taken just before it.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => restoreSnapshot(req));
+}
+
+async function restoreSnapshot(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const id = typeof body.id === "string" ? body.id.trim() : "";
+    if (!id) {
+      return NextResponse.json(
+        { ok: false, error: "Snapshot `id` is required." },
+        { status: 400 }
+      );
+    }
+
+    const items = await loadKbSnapshot(id);
+    if (!items) {
+      return NextResponse.json(
+        { ok: false, error: `Snapshot not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const before = (await loadKb()).length;
+    const saved = await saveKb(items, {
+      audit: auditContext(req, "/api/kb/snapshots/restore", "restore", body),
+    });
+    if (!saved.ok) {
+      return NextResponse.json(
+        { ok: false, error: saved.error },
+        { status: 503 }
+      );
+    }
+
+    console.log(`[KB] Restored snapshot ${id} (${before} -> ${items.length} rows)`);
+
+    return NextResponse.json({
+      ok: true,
+      restored: id,
+      before,
+      after: items.length,
+      snapshotId: saved.snapshotId,
+    });
+  } catch (err: any) {
+    console.error("❌ KB_SNAPSHOT_RESTORE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/kb/snapshots/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { listKbSnapshots } from "@/lib/kbSnapshots";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// GET /api/kb/snapshots?kb=<name>
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listSnapshots());
+}
+
+async function listSnapshots() {
+  try {
+    const snapshots = await listKbSnapshots();
+    return NextResponse.json({ ok: true, snapshots });
+  } catch (err: any) {
+    console.error("❌ KB_SNAPSHOTS_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/kb/staging/[id]/commit/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { KbConflictError } from "@/lib/kb";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { commitStagingBatch, KbStagingError } from "@/lib/kbStaging";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/kb/staging/:id/commit { rowIds? }
+// Embeds and merges the accepted rows (or exactly `rowIds`) into the KB.
+export async function POST(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, () => commit(req, params.id));
+}
+
+async function commit(req: NextRequest, id: string) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const batch = await commitStagingBatch(id, {
+      rowIds: Array.isArray(body.rowIds) ? body.rowIds.map(String) : undefined,
+      audit: auditContext(
+        req,
+        "/api/kb/staging/commit",
+        "staging-commit",
+        body
+      ),
+    });
+    return NextResponse.json({ ok: true, batch });
+  } catch (err: any) {
+    console.error("❌ KB_STAGING_COMMIT_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      {
+        status:
+          err instanceof KbStagingError || err instanceof KbConflictError
+            ? err.status
+            : 500,
+      }
+    );
+  }
+}
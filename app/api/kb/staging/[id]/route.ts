@@ -0,0 +1,61 @@
+// app/api/kb/staging/[id]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import {
+  getStagingBatch,
+  rejectStagingBatch,
+  updateStagingBatch,
+  KbStagingError,
+} from "@/lib/kbStaging";
+
+type Ctx = { params: { id: string } };
+
+function errorResponse(err: any, label: string) {
+  console.error(`❌ ${label}`, err);
+  return NextResponse.json(
+    { ok: false, error: err.message || "Unknown error" },
+    { status: err instanceof KbStagingError ? err.status : 500 }
+  );
+}
+
+// GET /api/kb/staging/:id – the batch with all its rows
+export async function GET(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, async () => {
+    try {
+      const batch = await getStagingBatch(params.id);
+      return NextResponse.json({ ok: true, batch });
+    } catch (err: any) {
+      return errorResponse(err, "KB_STAGING_GET_ERROR");
+    }
+  });
+}
+
+// PATCH /api/kb/staging/:id
+//   { rows: [{ id, question?, answer?, content?, source?, decision? }] }
+// decision: "pending" | "accepted" | "rejected"
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, async () => {
+    try {
+      const body = await req.json();
+      const batch = await updateStagingBatch(params.id, body?.rows);
+      return NextResponse.json({ ok: true, batch });
+    } catch (err: any) {
+      return errorResponse(err, "KB_STAGING_PATCH_ERROR");
+    }
+  });
+}
+
+// DELETE /api/kb/staging/:id – reject the whole batch
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  return withRequestKb(req, async () => {
+    try {
+      const batch = await rejectStagingBatch(params.id);
+      return NextResponse.json({ ok: true, batch });
+    } catch (err: any) {
+      return errorResponse(err, "KB_STAGING_REJECT_ERROR");
+    }
+  });
+}
@@ -0,0 +1,26 @@
+// app/api/kb/staging/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { listStagingBatches } from "@/lib/kbStaging";
+
+// GET /api/kb/staging?kb=<name>
+// Staged ingests (see /api/ingest?stage=1), newest first, without rows.
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => listBatches());
+}
+
+async function listBatches() {
+  try {
+    const batches = await listStagingBatches();
+    return NextResponse.json({ ok: true, batches });
+  } catch (err: any) {
+    console.error("❌ KB_STAGING_LIST_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
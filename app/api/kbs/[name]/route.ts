@@ -0,0 +1,23 @@
+// app/api/kbs/[name]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { deleteKb, KbRegistryError } from "@/lib/kbRegistry";
+
+type Ctx = { params: { name: string } };
+
+// DELETE /api/kbs/<name> -> removes the KB with its snapshots, audit log,
+// vectors and uploads. The default KB cannot be deleted.
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  try {
+    const { removed } = await deleteKb(params.name);
+    return NextResponse.json({ ok: true, name: params.name, removed });
+  } catch (err: any) {
+    console.error("❌ KBS_DELETE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbRegistryError ? err.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/kbs/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createKb, listKbs, KbRegistryError } from "@/lib/kbRegistry";
+
+// GET /api/kbs -> named knowledge bases, default first
+export async function GET() {
+  try {
+    const kbs = await listKbs();
+    return NextResponse.json({ ok: true, kbs });
+  } catch (err: any) {
+    console.error("❌ KBS_LIST_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/kbs { name, label?, description? }
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const kb = await createKb(body);
+    return NextResponse.json({ ok: true, kb }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ KBS_CREATE_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: err instanceof KbRegistryError ? err.status : 500 }
+    );
+  }
+}
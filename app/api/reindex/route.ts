@@ -0,0 +1,67 @@
+// app/api/reindex/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getKbStore } from "@/lib/kbStore";
+import { auditContext } from "@/lib/kbAudit";
+import { getReindexStatus, runReindex } from "@/lib/kbReindex";
+import { withRequestKb } from "@/lib/kbRegistry";
+
+// Leave headroom under the function's maxDuration (vercel.json: 800s) so
+// the last batch is saved before the platform kills the request.
+const TIME_BUDGET_MS = 600_000;
+
+// GET /api/reindex?kb=<name> -> rows needing re-embedding (by reason) and
+// the last job
+export async function GET(req: NextRequest) {
+  return withRequestKb(req, () => reindexStatus());
+}
+
+async function reindexStatus() {
+  try {
+    const status = await getReindexStatus();
+    return NextResponse.json({ ok: true, ...status });
+  } catch (err: any) {
+    console.error("❌ REINDEX_STATUS_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/reindex?kb=<name> { force?, restart?, limit? }
+// Runs (or resumes) the reindex job until it finishes or the time budget is
+// spent. Call again while `done` is false.
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => reindex(req));
+}
+
+async function reindex(req: NextRequest) {
+  try {
+    if (!getKbStore().writable) {
+      return NextResponse.json(
+        { ok: false, error: "KB store is not writable" },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const job = await runReindex({
+      force: !!body.force,
+      restart: !!body.restart,
+      limit: Number(body.limit) || undefined,
+      timeBudgetMs: TIME_BUDGET_MS,
+      audit: auditContext(req, "/api/reindex", "reindex", body),
+    });
+
+    return NextResponse.json({ ok: true, done: job.status === "done", job });
+  } catch (err: any) {
+    console.error("❌ REINDEX_ERROR", err);
+    return NextResponse.json(
+      { ok: false, error: err.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
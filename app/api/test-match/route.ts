@@ -3,53 +3,49 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { embedText } from "@/lib/embed";
+import { loadKb, kbEmbeddingIssue } from "@/lib/kb";
+import { publicKbItem } from "@/lib/kbItems";
+import { withRequestKb } from "@/lib/kbRegistry";
+import { toFloat32 } from "@/lib/kbVectors";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-const FALLBACK_BLOB_BASE =
-  "https://9q4ay5sxapz9hmj4.public.blob.vercel-storage.com";
-const KB_PATH = "kb.json";
-
-async function getEmbeddingSafe(text: string): Promise<number[]> {
-  try {
-    const res = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({ model: "text-embedding-3-small", input: text }),
-    });
-    const data = await res.json();
-    if (!data.data || !data.data[0]) throw new Error("Failed to embed query");
-    return data.data[0].embedding;
-  } catch (err) {
-    console.error("❌ EMBEDDING ERROR", err);
-    return [];
-  }
+// POST /api/test-match?kb=<name> { query }
+export async function POST(req: NextRequest) {
+  return withRequestKb(req, () => testMatch(req));
 }
 
-export async function POST(req: NextRequest) {
+async function testMatch(req: NextRequest) {
   try {
     const { query } = await req.json();
     if (!query) throw new Error("Missing query text");
 
-    const emb = await getEmbeddingSafe(query);
-    const kbUrl = `${process.env.BLOB_BASE_URL || FALLBACK_BLOB_BASE}/${KB_PATH}`;
-    const kbRes = await fetch(kbUrl, { cache: "no-store" });
-    if (!kbRes.ok) throw new Error("Failed to fetch KB");
-    const kb = await kbRes.json();
+    const { vector: emb, error } = await embedText(query);
+    if (!emb.length) throw new Error(error || "Failed to embed query");
+    const kb = await loadKb();
+    if (!kb.length) throw new Error("KB empty or missing");
+    const qNorm = Math.sqrt(emb.reduce((sum, v) => sum + v * v, 0));
 
     let best = { score: -1, match: null as any };
     for (const item of kb) {
-      if (!item.embedding) continue;
-      const dot = emb.reduce((s, v, i) => s + v * item.embedding[i], 0);
-      if (dot > best.score) best = { score: dot, match: item };
+      // Vectors from another model (or none) are not comparable; a stale
+      // vector of the row's old text still is
+      const issue = kbEmbeddingIssue(item);
+      if (issue && issue !== "text") continue;
+      const vec = toFloat32(item.embedding);
+      if (vec.length !== emb.length) continue;
+      let dot = 0;
+      let norm = 0;
+      for (let i = 0; i < vec.length; i++) {
+        dot += emb[i] * vec[i];
+        norm += vec[i] * vec[i];
+      }
+      const score = dot / (qNorm * Math.sqrt(norm) || 1);
+      if (score > best.score) best = { score, match: item };
     }
 
     return NextResponse.json({
       ok: true,
-      bestMatch: best.match,
+      bestMatch: best.match && publicKbItem(best.match),
       score: best.score,
     });
   } catch (err: any) {
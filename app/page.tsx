@@ -2,7 +2,7 @@
 
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import ChatWidget from "@/components/ChatWidget";
 
 // Download helper
@@ -18,10 +18,33 @@ function downloadZip(payload: any) {
   URL.revokeObjectURL(url);
 }
 
+type KbOption = { name: string; label: string };
+
 export default function HomePage() {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [status, setStatus] = useState("");
+  const [kbs, setKbs] = useState<KbOption[]>([]);
+  const [kb, setKb] = useState("default");
+  // Extra KBs a report falls back to, after `kb`
+  const [alsoSearch, setAlsoSearch] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch("/api/kbs")
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.ok && Array.isArray(json.kbs)) setKbs(json.kbs);
+      })
+      .catch(() => {
+        // Picker stays on the default KB
+      });
+  }, []);
+
+  function toggleAlsoSearch(name: string) {
+    setAlsoSearch((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]
+    );
+  }
 
   async function ingestFile() {
     if (!file) {
@@ -34,7 +57,10 @@ export default function HomePage() {
     form.append("file", file);
 
     try {
-      const res = await fetch("/api/ingest", { method: "POST", body: form });
+      const res = await fetch("/api/ingest?kb=" + encodeURIComponent(kb), {
+        method: "POST",
+        body: form,
+      });
       const json = await res.json();
 
       if (!json.ok) {
@@ -42,7 +68,13 @@ export default function HomePage() {
         return false;
       }
 
-      setStatus("✅ File ingested successfully.");
+      setStatus(
+        json.duplicate
+          ? "♻️ File was already ingested; KB unchanged."
+          : json.reingested
+          ? `✅ New version ingested: ${json.added} added, ${json.changed} changed, ${json.unchanged} unchanged, ${json.retired} retired.`
+          : "✅ File ingested successfully."
+      );
       return true;
     } catch (err: any) {
       setStatus(`❌ Ingest failed: ${err.message}`);
@@ -70,10 +102,15 @@ export default function HomePage() {
       const form = new FormData();
       form.append("file", file);
 
-      const res = await fetch("/api/generate-report", {
-        method: "POST",
-        body: form,
-      });
+      // Selected KB first, then the fallbacks in the order they were ticked
+      const searchKbs = [kb, ...alsoSearch.filter((n) => n !== kb)];
+      const res = await fetch(
+        "/api/generate-report?kb=" + encodeURIComponent(searchKbs.join(",")),
+        {
+          method: "POST",
+          body: form,
+        }
+      );
 
       const json = await res.json();
 
@@ -81,8 +118,11 @@ export default function HomePage() {
 
       downloadZip(json.zip);
 
+      const drafts = json.draftAnswers
+        ? ` ${json.draftAnswers} answers use draft KB rows (flagged in the Analyst report).`
+        : "";
       setStatus(
-        `✅ Generated ${json.totalQuestions} questions. ZIP downloaded successfully.`
+        `✅ Generated ${json.totalQuestions} questions. ZIP downloaded successfully.${drafts}`
       );
     } catch (err: any) {
       setStatus(`❌ ${err.message}`);
@@ -107,6 +147,55 @@ export default function HomePage() {
         <h1 style={{ fontSize: "1.8rem", fontWeight: 700 }}>
           📄 UPRISE RFP Tool
         </h1>
+        <p style={{ fontSize: 14, marginTop: -6 }}>
+          <a href="/aliases">Manage aliases</a>
+        </p>
+
+        <label
+          style={{ display: "block", textAlign: "left", marginBottom: 10 }}
+        >
+          Knowledge base
+          <select
+            value={kb}
+            onChange={(e) => setKb(e.target.value)}
+            disabled={loading}
+            style={{
+              border: "1px solid #ccc",
+              padding: "8px",
+              borderRadius: "6px",
+              background: "#fff",
+              width: "100%",
+              marginTop: 4,
+            }}
+          >
+            {(kbs.length ? kbs : [{ name: "default", label: "Default" }]).map(
+              (k) => (
+                <option key={k.name} value={k.name}>
+                  {k.label}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+
+        {kbs.length > 1 && (
+          <div style={{ textAlign: "left", marginBottom: 10, fontSize: 14 }}>
+            Reports also search:
+            {kbs
+              .filter((k) => k.name !== kb)
+              .map((k) => (
+                <label key={k.name} style={{ marginLeft: 10 }}>
+                  <input
+                    type="checkbox"
+                    checked={alsoSearch.includes(k.name)}
+                    onChange={() => toggleAlsoSearch(k.name)}
+                    disabled={loading}
+                  />{" "}
+                  {k.label}
+                </label>
+              ))}
+          </div>
+        )}
 
         <input
           type="file"
@@ -188,7 +277,7 @@ export default function HomePage() {
           overflow: "hidden",
         }}
       >
-        <ChatWidget />
+        <ChatWidget kb={kb} />
       </div>
     </main>
   );
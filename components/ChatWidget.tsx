@@ -27,8 +27,9 @@ interface ChatApiResponse {
  * Super-defensive ChatWidget:
  * - Never throws on bad responses
  * - Shows errors as messages instead of crashing the app
+ * - Chats with (and saves to) the named KB passed as `kb`
  */
-export default function ChatWidget() {
+export default function ChatWidget({ kb = "default" }: { kb?: string }) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
@@ -65,7 +66,7 @@ export default function ChatWidget() {
     setLoading(true);
 
     try {
-      const res = await fetch("/api/chat", {
+      const res = await fetch("/api/chat?kb=" + encodeURIComponent(kb), {
         method: "POST",
         headers: {
           "content-type": "application/json",
@@ -146,7 +147,7 @@ export default function ChatWidget() {
     }
 
     try {
-      const res = await fetch("/api/kb-update", {
+      const res = await fetch("/api/kb-update?kb=" + encodeURIComponent(kb), {
         method: "POST",
         headers: {
           "content-type": "application/json",
@@ -155,6 +156,7 @@ export default function ChatWidget() {
           question: lastUserMessage.content,
           answer: lastAssistantMessage.content,
           source: "Chat Assistant",
+          via: "chat-save",
         }),
       });
 
@@ -44,6 +44,15 @@ function getCleanSources(sources?: string[]): string[] {
   return out;
 }
 
+// "[source] ", with the reranker's relevance when there is one
+function matchLabel(m: { source: string; rerankScore?: number }): string {
+  const relevance =
+    typeof m.rerankScore === "number"
+      ? ` · relevance ${m.rerankScore.toFixed(2)}`
+      : "";
+  return `[${sanitizeForDocx(m.source)}${relevance}] `;
+}
+
 export async function buildAnalystDocx(
   items: QAItem[],
   originalFilename?: string
@@ -93,6 +102,40 @@ export async function buildAnalystDocx(
       })
     );
 
+    // Built from rows nobody has approved yet
+    if (item.draftSources?.length) {
+      paras.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: "Needs review – uses draft KB answers from: ",
+              bold: true,
+            }),
+            new TextRun(
+              item.draftSources.map((s) => sanitizeForDocx(s)).join("; ")
+            ),
+          ],
+        })
+      );
+    }
+
+    // What retrieval searched for besides the question itself
+    if (item.searchQueries?.length) {
+      paras.push(
+        new Paragraph({
+          children: [new TextRun({ text: "Searched as:", bold: true })],
+        })
+      );
+      item.searchQueries.forEach((query) => {
+        paras.push(
+          new Paragraph({
+            bullet: { level: 0 },
+            children: [new TextRun(sanitizeForDocx(query))],
+          })
+        );
+      });
+    }
+
     // Sources used
     if (sources.length) {
       paras.push(
@@ -124,7 +167,7 @@ export async function buildAnalystDocx(
           bullet: { level: 0 },
           children: [
             new TextRun({
-              text: `[${sanitizeForDocx(m.source)}] `,
+              text: matchLabel(m),
               bold: true,
             }),
             new TextRun(sanitizeForDocx(m.snippet)),
@@ -146,7 +189,7 @@ export async function buildAnalystDocx(
           bullet: { level: 0 },
           children: [
             new TextRun({
-              text: `[${sanitizeForDocx(m.source)}] `,
+              text: matchLabel(m),
               bold: true,
             }),
             new TextRun(sanitizeForDocx(m.snippet)),
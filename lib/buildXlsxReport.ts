@@ -21,6 +21,8 @@ export async function buildXlsxReport(
     "Top Contextual Snippet",
     "Top Raw-text Source",
     "Top Raw-text Snippet",
+    "Draft Sources",
+    "Top Contextual Relevance", // reranker score, when the profile reranks
   ];
 
   const rows = items.map((item, idx) => {
@@ -35,6 +37,8 @@ export async function buildXlsxReport(
       cm ? norm(cm.snippet) : "",
       rm ? norm(rm.source) : "",
       rm ? norm(rm.snippet) : "",
+      norm(item.draftSources?.join("; ") || ""),
+      typeof cm?.rerankScore === "number" ? cm.rerankScore : "",
     ];
   });
 
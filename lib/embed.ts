@@ -1,24 +1,40 @@
 // lib/embed.ts
 // Simple embedding helper using direct fetch instead of the OpenAI SDK.
+import { applyAliases, loadKbAliases } from "@/lib/kbAliases";
 
-function applyAliases(text: string): string {
-  return (text || "").replace(/\blsws?\b/gi, "licensed social workers");
-}
+// Every stored and query vector must come from this model (see
+// kbEmbeddingIssue in lib/kb.ts and /api/reindex).
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+export type EmbeddingResult = {
+  vector: number[]; // empty when the call failed
+  model: string;
+  error?: string; // why `vector` is empty
+  text?: string; // what was embedded: the input with aliases expanded
+};
+
+/** Like getEmbedding, but says why an embedding could not be produced. */
+export async function embedText(text: string): Promise<EmbeddingResult> {
+  const failed = (error: string): EmbeddingResult => ({
+    vector: [],
+    model: EMBEDDING_MODEL,
+    error,
+  });
 
-export async function getEmbedding(text: string): Promise<number[]> {
   const key = process.env.OPENAI_API_KEY;
   if (!key) {
     console.error("❌ EMBED_ERROR Missing OPENAI_API_KEY in environment");
-    return [];
+    return failed("Missing OPENAI_API_KEY");
   }
 
   const raw = (text || "").trim();
+  await loadKbAliases();
   const clean = applyAliases(raw);
-  if (!clean) return [];
+  if (!clean) return failed("Empty text");
 
   try {
     const body = {
-      model: "text-embedding-3-small",
+      model: EMBEDDING_MODEL,
       input: clean.slice(0, 8000),
     };
 
@@ -38,7 +54,7 @@ export async function getEmbedding(text: string): Promise<number[]> {
         resp.status,
         String(errText).slice(0, 300)
       );
-      return [];
+      return failed(`HTTP ${resp.status}: ${String(errText).slice(0, 200)}`);
     }
 
     const data: any = await resp.json().catch((e: any) => {
@@ -48,13 +64,24 @@ export async function getEmbedding(text: string): Promise<number[]> {
 
     if (!data || !Array.isArray(data.data) || !data.data[0]?.embedding) {
       console.error("❌ EMBED_ERROR Invalid embedding payload", data);
-      return [];
+      return failed("Invalid embedding payload");
     }
 
     const emb = data.data[0].embedding;
-    return Array.isArray(emb) ? emb.map((n: any) => Number(n) || 0) : [];
+    if (!Array.isArray(emb) || !emb.length) {
+      return failed("Invalid embedding payload");
+    }
+    return {
+      vector: emb.map((n: any) => Number(n) || 0),
+      model: EMBEDDING_MODEL,
+      text: clean,
+    };
   } catch (err: any) {
     console.error("❌ EMBED_ERROR", err?.message || err);
-    return [];
+    return failed(String(err?.message || err));
   }
 }
+
+export async function getEmbedding(text: string): Promise<number[]> {
+  return (await embedText(text)).vector;
+}
@@ -1,58 +1,107 @@
 // lib/kb.ts
-import stringSimilarity from "string-similarity";
-import { put } from "@vercel/blob";
+import { createHash, randomUUID } from "crypto";
+import { currentKb, getKbStore } from "@/lib/kbStore";
+import { embedText, EMBEDDING_MODEL, EmbeddingResult } from "@/lib/embed";
+import { writeKbSnapshot } from "@/lib/kbSnapshots";
+import {
+  parseKbDocument,
+  readKbDocument,
+  writeKbDocument,
+  toFloat32,
+  KB_FORMAT,
+} from "@/lib/kbVectors";
+import {
+  buildKbAuditEntries,
+  writeKbAudit,
+  KbAuditContext,
+  SYSTEM_AUDIT,
+} from "@/lib/kbAudit";
+import {
+  checkKbSanitizeRules,
+  KbDropReason,
+  KbSanitizeRuleId,
+} from "@/lib/kbSanitizeRules";
+import { applyAliases, loadKbAliases } from "@/lib/kbAliases";
+import {
+  buildLexicalIndex,
+  scoreLexical,
+  KbLexicalDoc,
+  KbLexicalIndex,
+} from "@/lib/kbLexical";
+import { syncKbAnnIndex, KbAnnIndex } from "@/lib/kbAnn";
 
 export type KBItem = {
+  // Stable identifier (assigned on insert; legacy rows are migrated on load)
+  id?: string;
+
   // Core fields
   kind?: "qa" | "context"; // default: "qa" if omitted
   question?: string;
   answer?: string;
   content?: string; // for free-form context chunks
-  embedding?: number[] | string;
+  // Float32Array once loaded (see lib/kbVectors.ts); number[] from the
+  // embedding API; string only in very old rows
+  embedding?: number[] | string | Float32Array;
+  // What produced `embedding` (see setKbEmbedding); absent on legacy rows
+  embeddingModel?: string;
+  embeddingDims?: number;
+  // sha1 of the embedded text: kbEmbeddingText() with aliases expanded
+  embeddingHash?: string;
+  embeddedAt?: string;
+  // Set while the last embed attempt failed (see setKbEmbedding)
+  embeddingError?: string;
+  embeddingFailedAt?: string;
+  embeddingAttempts?: number;
+  embeddingRetryAt?: string;
 
   // Provenance
   source?: string;
   sourceFile?: string;
   doc?: string;
+  docId?: string; // registered source document (see lib/kbDocuments.ts)
   origin?: string;
+  tags?: string[];
+
+  // Review lifecycle (see kbLifecycle)
+  status?: KbLifecycle;
+  reviewer?: string;
+  approvedAt?: string;
+  validUntil?: string; // ISO date(-time); the row expires after it
+  retiredAt?: string; // dropped from a newer version of its document
+  supersededBy?: string; // winning row of a resolved conflict
+
+  // Other phrasings of `question` (see lib/kbDuplicates.ts)
+  questionAliases?: string[];
+  mergedFrom?: string[]; // ids of rows merged into this one
 
   // Any legacy / extra fields
   [key: string]: any;
 };
 
+export type KbLifecycle = "draft" | "approved" | "deprecated" | "expired";
+
+export const KB_LIFECYCLE_STATES: KbLifecycle[] = [
+  "draft",
+  "approved",
+  "deprecated",
+  "expired",
+];
+
 // Scored view used internally
 export type KBScoredItem = KBItem & {
   score?: number;
   semanticScore?: number;
   lexicalScore?: number;
+  rerankScore?: number; // LLM relevance, 0..1 (see lib/kbRerank.ts)
+  kb?: string; // named KB the match came from (multi-KB search)
+  lifecycle?: KbLifecycle; // effective status when scored
 };
 
-// Public blob where kb.json lives
-const KB_BASE = "https://ynyzmdodop38gqsz.public.blob.vercel-storage.com";
+// Key of the KB file inside the configured store (see lib/kbStore.ts)
 const KB_PATH = "kb.json";
 
 // ---------- utils ----------
-function cosine(a: number[], b: number[]) {
-  if (!a?.length || !b?.length) return 0;
-  const n = Math.min(a.length, b.length);
-  let dot = 0,
-    magA = 0,
-    magB = 0;
-  for (let i = 0; i < n; i++) {
-    const ai = Number(a[i]) || 0;
-    const bi = Number(b[i]) || 0;
-    dot += ai * bi;
-    magA += ai * ai;
-    magB += bi * bi;
-  }
-  return dot / (Math.sqrt(magA) * Math.sqrt(magB) || 1);
-}
-
-// Expand abbreviations / aliases in both KB and queries
-function applyAliases(text: string) {
-  return (text || "").replace(/\blsws?\b/gi, "licensed social workers");
-}
-
+// Expands aliases with the dictionary last loaded by loadKbAliases()
 function norm(s: any) {
   return applyAliases((s ?? "").toString()).replace(/\s+/g, " ").trim();
 }
@@ -65,17 +114,6 @@ function normalizeVendorNames(text: string) {
   );
 }
 
-function isGarbageAnswer(a: string) {
-  const t = norm(a).toLowerCase();
-  if (!t) return true;
-  if (t.length < 2) return true;
-  if (/^(n\/a|na|none|null|tbd|n\s*a|n-?\/-?a|\-)$/.test(t)) return true;
-  if (/^[a-z]$/.test(t)) return true; // single letter
-  if (/lorem ipsum|dummy|test/i.test(t)) return true;
-  if (/^([.,;:!?()\[\]\-_/\\\s])+$/.test(t)) return true;
-  return false;
-}
-
 function isQaKind(item: KBItem) {
   return (item.kind ?? "qa") === "qa";
 }
@@ -84,138 +122,723 @@ function isContextKind(item: KBItem) {
   return item.kind === "context";
 }
 
+// ---------- IDs ----------
+export function newKbId(): string {
+  return randomUUID();
+}
+
+// Give every row without an id a fresh one. Returns how many were assigned.
+function ensureKbIds(items: KBItem[]): number {
+  const seen = new Set<string>();
+  let assigned = 0;
+  for (const item of items) {
+    if (!item.id || seen.has(item.id)) {
+      item.id = newKbId();
+      assigned++;
+    }
+    seen.add(item.id);
+  }
+  return assigned;
+}
+
+// ---------- Embedding metadata ----------
+/** The text a row's embedding is computed from. */
+export function kbEmbeddingText(item: KBItem): string {
+  const clean = (s: any) => (s ?? "").toString().replace(/\s+/g, " ").trim();
+  if (item.kind === "context") return clean(item.content);
+  return clean(item.question) + "\n" + clean(item.answer);
+}
+
+function sha1(text: string) {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+// Covers the alias dictionary too (embedText expands aliases), so rows whose
+// expansion changed with the dictionary show up as stale. Uses the
+// dictionary last loaded by loadKbAliases(), which loadKbVersioned() does.
+function embeddingHashOf(item: KBItem) {
+  return sha1(applyAliases(kbEmbeddingText(item)));
+}
+
+// Failed rows are retried after 1 min, 2 min, 4 min, ... capped at a day
+const EMBED_RETRY_BASE_MS = 60 * 1000;
+const EMBED_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+function embedRetryDelay(attempts: number) {
+  return Math.min(
+    EMBED_RETRY_MAX_MS,
+    EMBED_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)
+  );
+}
+
+/**
+ * Attach a freshly computed embedding and record what produced it. Call it
+ * after the row text is final. A failed result (empty vector) clears the
+ * vector and marks the row with the error and when to retry it, so it shows
+ * up in /api/kb/embedding-health instead of silently scoring lexically.
+ */
+export function setKbEmbedding(
+  item: KBItem,
+  embedded: EmbeddingResult | number[] | Float32Array
+) {
+  const result: EmbeddingResult =
+    Array.isArray(embedded) || embedded instanceof Float32Array
+      ? { vector: embedded as number[], model: EMBEDDING_MODEL }
+      : embedded;
+  const { vector } = result;
+  const now = new Date();
+
+  item.embedding = vector;
+  if (!vector?.length) {
+    delete item.embeddingModel;
+    delete item.embeddingDims;
+    delete item.embeddingHash;
+    delete item.embeddedAt;
+    const attempts = (Number(item.embeddingAttempts) || 0) + 1;
+    item.embeddingError = result.error || "Empty embedding";
+    item.embeddingFailedAt = now.toISOString();
+    item.embeddingAttempts = attempts;
+    item.embeddingRetryAt = new Date(
+      now.getTime() + embedRetryDelay(attempts)
+    ).toISOString();
+    return;
+  }
+  item.embeddingModel = result.model;
+  item.embeddingDims = vector.length;
+  // The text embedText actually sent, if known: a vector computed for other
+  // text (or under another dictionary) must not look fresh
+  item.embeddingHash =
+    result.text !== undefined ? sha1(result.text) : embeddingHashOf(item);
+  item.embeddedAt = now.toISOString();
+  delete item.embeddingError;
+  delete item.embeddingFailedAt;
+  delete item.embeddingAttempts;
+  delete item.embeddingRetryAt;
+}
+
+export type KbEmbeddingIssue = "missing" | "model" | "dims" | "text";
+
+/** Why a row's embedding can't be trusted for EMBEDDING_MODEL, or null. */
+export function kbEmbeddingIssue(item: KBItem): KbEmbeddingIssue | null {
+  const dims = toFloat32(item.embedding).length;
+  if (!dims) return "missing";
+  if (item.embeddingModel !== EMBEDDING_MODEL) return "model";
+  if (item.embeddingDims !== dims) return "dims";
+  if (item.embeddingHash !== embeddingHashOf(item)) return "text";
+  return null;
+}
+
+// ---------- Lifecycle ----------
+// Answers saved before lifecycle states existed count as approved (the KB
+// was used as-is), except those saved from the chat, which nobody reviewed.
+const CHAT_SOURCE = "chat assistant";
+
+/** When the row stops being valid (ms), or Infinity. */
+export function kbExpiresAt(item: KBItem): number {
+  const raw = (item.validUntil ?? "").toString().trim();
+  if (!raw) return Infinity;
+  const at = Date.parse(raw);
+  if (isNaN(at)) return Infinity;
+  // A plain date is valid through the end of that day (UTC)
+  return /^\d{4}-\d{2}-\d{2}$/.test(raw) ? at + 24 * 60 * 60 * 1000 : at;
+}
+
+/** The row's effective status: `validUntil` overrides draft / approved. */
+export function kbLifecycle(item: KBItem, now = Date.now()): KbLifecycle {
+  if (item.status === "deprecated" || item.status === "expired") {
+    return item.status;
+  }
+  if (kbExpiresAt(item) <= now) return "expired";
+  if (item.status === "draft" || item.status === "approved") return item.status;
+  const source = (item.source ?? "").toString().trim().toLowerCase();
+  return source === CHAT_SOURCE ? "draft" : "approved";
+}
+
+/** Set a row's status; approving stamps `approvedAt` (and the reviewer). */
+export function setKbLifecycle(
+  item: KBItem,
+  status: KbLifecycle,
+  reviewer?: string
+) {
+  item.status = status;
+  if (status === "approved") {
+    item.approvedAt = new Date().toISOString();
+    if (reviewer) item.reviewer = reviewer;
+  } else if (status === "draft") {
+    // New, unreviewed text; deprecated / expired rows keep their history
+    delete item.approvedAt;
+    delete item.reviewer;
+  }
+}
+
 // ---------- KB I/O ----------
-export async function loadKb(): Promise<KBItem[]> {
-  const ts = Date.now();
-  const url = `${KB_BASE}/${KB_PATH}?nocache=${ts}`;
-  console.log(`[KB] Fetching from ${url}`);
+// Every load reports the version (content hash) it read. A save that passes
+// `expectedVersion` fails with KbConflictError if kb.json changed since.
+export type KbVersioned = { items: KBItem[]; version: string };
+
+export type SaveKbOpts = {
+  expectedVersion?: string;
+  // Who/what is making this change; recorded in the audit log
+  audit?: KbAuditContext;
+  // false for the intermediate saves of a batched operation, which takes
+  // one snapshot at the end (snapshotKb) instead of one per batch
+  snapshot?: boolean;
+};
 
-  const res = await fetch(url, {
-    cache: "no-store",
-    headers: { pragma: "no-cache", "cache-control": "no-cache" },
-  });
+export type SaveKbResult = {
+  ok: boolean;
+  url?: string;
+  version?: string;
+  snapshotId?: string | null;
+  error?: string;
+};
+
+export class KbConflictError extends Error {
+  status = 409;
+  constructor(expected: string, actual: string) {
+    super(
+      `KB changed since it was loaded (expected version ${expected}, found ${actual}). Reload and try again.`
+    );
+    this.name = "KbConflictError";
+  }
+}
+
+export class KbNotFoundError extends Error {
+  status = 404;
+  constructor(id: string) {
+    super(`KB item not found: ${id}`);
+    this.name = "KbNotFoundError";
+  }
+}
+
+const EMPTY_VERSION = "empty";
+const UNAVAILABLE_VERSION = "unavailable";
+
+// Best-effort parse of a stored kb.json without loading its vectors
+function parseKbMeta(raw: Buffer | null) {
+  if (!raw) return { vectors: null, items: [] as KBItem[] };
+  try {
+    return parseKbDocument(raw);
+  } catch {
+    return { vectors: null, items: [] as KBItem[] };
+  }
+}
+
+function kbVersionOf(raw: Buffer | string | null): string {
+  if (raw == null) return EMPTY_VERSION;
+  return createHash("sha1").update(raw).digest("hex");
+}
+
+// Serializes check-and-write within this process. Across processes the blob
+// driver can still race in the gap between the check and the write, but the
+// window is a single round-trip instead of a whole ingest.
+let kbWriteChain: Promise<unknown> = Promise.resolve();
 
-  if (!res.ok) {
-    console.error(`[KB] HTTP ${res.status} loading kb.json`);
-    return [];
+function withKbWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = kbWriteChain.then(fn, fn);
+  kbWriteChain = run.catch(() => undefined);
+  return run;
+}
+
+export async function loadKbVersioned(): Promise<KbVersioned> {
+  const store = getKbStore();
+  // kbEmbeddingIssue() compares hashes under the current alias dictionary
+  await loadKbAliases();
+  console.log(
+    `[KB] Loading ${KB_PATH} of KB "${currentKb()}" from ${store.driver} store`
+  );
+
+  let raw: Buffer | null;
+  try {
+    raw = await store.read(KB_PATH);
+  } catch (err: any) {
+    // Any save against this version will conflict, so a failed read can
+    // never be written back over the real KB as an empty one.
+    console.error("[KB] Load failed:", err?.message || err);
+    return { items: [], version: UNAVAILABLE_VERSION };
+  }
+  if (!raw) {
+    console.warn(`[KB] ${KB_PATH} not found; starting with an empty KB`);
+    return { items: [], version: EMPTY_VERSION };
   }
 
-  const text = await res.text();
+  let version = kbVersionOf(raw);
+  let items: KBItem[];
+  let format: number;
   try {
-    const parsed = JSON.parse(text);
-    return Array.isArray(parsed) ? parsed : [];
+    const doc = await readKbDocument(raw);
+    items = doc.items;
+    format = doc.format;
   } catch (err) {
+    if (!(err instanceof SyntaxError)) {
+      // The vector sidecar could not be read; same rule as a failed load
+      console.error("[KB] Load failed:", (err as any)?.message || err);
+      return { items: [], version: UNAVAILABLE_VERSION };
+    }
     console.error("❌ KB PARSE ERROR", err);
-    console.log("Raw snippet:", text.slice(0, 300));
-    return [];
+    console.log("Raw snippet:", raw.toString("utf8", 0, 300));
+    return { items: [], version };
+  }
+
+  // One-time migrations, persisted right away: legacy rows get stable ids,
+  // and a legacy array with inline JSON embeddings is rewritten as slim
+  // metadata plus a binary vector sidecar.
+  const assigned = ensureKbIds(items);
+  if (assigned > 0 || format < KB_FORMAT) {
+    console.log(
+      `[KB] Migrating KB (format ${format} -> ${KB_FORMAT}, ${assigned} rows without a stable id)`
+    );
+    try {
+      const saved = await saveKb(items, {
+        expectedVersion: version,
+        audit: { ...SYSTEM_AUDIT, source: "migration" },
+      });
+      if (saved.ok) version = saved.version;
+    } catch (err) {
+      if (!(err instanceof KbConflictError)) throw err;
+      // Someone else wrote first; their save (or our next load) migrates.
+      return loadKbVersioned();
+    }
   }
+
+  return { items, version };
 }
 
-export async function saveKb(items: KBItem[]) {
-  const token =
-    process.env.BLOB_READ_WRITE_TOKEN ||
-    process.env.VERCEL_BLOB_READ_WRITE_TOKEN;
+export async function loadKb(): Promise<KBItem[]> {
+  return (await loadKbVersioned()).items;
+}
 
-  if (!token) {
-    console.warn("[KB] No blob write token set; running in read-only mode.");
-    return { ok: false, error: "No blob write token set" };
+export async function saveKb(
+  items: KBItem[],
+  opts: SaveKbOpts = {}
+): Promise<SaveKbResult> {
+  const store = getKbStore();
+
+  if (!store.writable) {
+    console.warn("[KB] KB store is not writable; running in read-only mode.");
+    return { ok: false, error: "KB store is not writable" };
   }
 
-  const body = JSON.stringify(items, null, 2);
+  ensureKbIds(items);
 
-  try {
-    const r = await put(KB_PATH, body, {
-      access: "public",
-      addRandomSuffix: false, // keep the same filename
-      allowOverwrite: true, // allow overwriting existing kb.json
-      contentType: "application/json",
-      token,
-    });
-    console.log(`[KB] Saved ${items.length} rows to ${r.url}`);
-    return { ok: true, url: r.url };
-  } catch (err: any) {
-    console.error("❌ KB SAVE ERROR", err?.message || err);
-    throw err;
+  return withKbWriteLock(async () => {
+    const currentRaw = await store.read(KB_PATH);
+    const current = parseKbMeta(currentRaw);
+    if (opts.expectedVersion !== undefined) {
+      const found = kbVersionOf(currentRaw);
+      if (found !== opts.expectedVersion) {
+        console.warn(
+          `[KB] Write conflict: expected ${opts.expectedVersion}, found ${found}`
+        );
+        throw new KbConflictError(opts.expectedVersion, found);
+      }
+    }
+
+    try {
+      const body = await writeKbDocument(items, current.vectors);
+      const r = await store.write(KB_PATH, body, "application/json");
+      console.log(`[KB] Saved ${items.length} rows to ${r.url}`);
+      invalidateKbIndex();
+      await writeKbAudit(
+        buildKbAuditEntries(
+          current.items,
+          items,
+          opts.audit || SYSTEM_AUDIT
+        )
+      );
+      const snapshotId =
+        opts.snapshot === false ? null : await writeKbSnapshot(body);
+      return { ok: true, url: r.url, version: kbVersionOf(body), snapshotId };
+    } catch (err: any) {
+      console.error("❌ KB SAVE ERROR", err?.message || err);
+      throw err;
+    }
+  });
+}
+
+/**
+ * Snapshot the KB as it is now. Batched operations (ingest, reindex,
+ * embedding repair) save each batch with `snapshot: false` and call this
+ * once when done, so a single upload cannot rotate out older snapshots.
+ */
+export async function snapshotKb(): Promise<string | null> {
+  const store = getKbStore();
+  if (!store.writable) return null;
+  return withKbWriteLock(async () => {
+    const raw = await store.read(KB_PATH);
+    return raw ? writeKbSnapshot(raw.toString("utf8")) : null;
+  });
+}
+
+type MutateKbOpts = {
+  // How many times to reload and reapply after a conflict (0 = fail fast)
+  retries?: number;
+  // Version the caller already showed to a user; implies no retries
+  expectedVersion?: string;
+  audit?: KbAuditContext;
+  snapshot?: boolean;
+};
+
+/**
+ * Load the KB, let `apply` change the rows in place, and save with a
+ * version check. On conflict the KB is reloaded and `apply` runs again on
+ * the fresh rows, so it must be safe to repeat (do slow work such as
+ * embedding before calling this, not inside `apply`).
+ */
+export async function mutateKb<T>(
+  apply: (kb: KBItem[]) => T | Promise<T>,
+  opts: MutateKbOpts = {}
+): Promise<{ result: T; saved: SaveKbResult }> {
+  const retries = opts.expectedVersion ? 0 : opts.retries ?? 3;
+
+  for (let attempt = 0; ; attempt++) {
+    const { items, version } = await loadKbVersioned();
+    if (opts.expectedVersion && opts.expectedVersion !== version) {
+      throw new KbConflictError(opts.expectedVersion, version);
+    }
+    const result = await apply(items);
+    try {
+      const saved = await saveKb(items, {
+        expectedVersion: version,
+        audit: opts.audit,
+        snapshot: opts.snapshot,
+      });
+      return { result, saved };
+    } catch (err) {
+      if (!(err instanceof KbConflictError) || attempt >= retries) throw err;
+      console.log(
+        `[KB] Conflict on attempt ${attempt + 1}; reloading and retrying`
+      );
+      await new Promise((r) => setTimeout(r, 50 * (attempt + 1)));
+    }
+  }
+}
+
+// ---------- Prepared in-memory index ----------
+// Retrieval scores every row for every query, so the per-row work (text
+// normalization, embedding parsing, vector norms, the BM25 keyword index and,
+// for large KBs, the ANN graph) is done once per KB version instead. saveKb()
+// drops the cached index; the TTL covers writes made by other server
+// instances.
+type PreparedRow = {
+  item: KBItem; // normalized question / answer / content
+  lexical: KbLexicalDoc; // fields the BM25 index covers
+  vector: Float32Array;
+  vectorNorm: number;
+  status: "draft" | "approved"; // deprecated / expired rows are not indexed
+  expiresAt: number; // rows expiring while the index is cached are skipped
+};
+
+export type KbIndex = {
+  kb: string; // name of the KB it was built from
+  version: string;
+  builtAt: number;
+  qa: PreparedRow[];
+  context: PreparedRow[];
+  qaLexical: KbLexicalIndex;
+  contextLexical: KbLexicalIndex;
+  // Set for KBs of at least KB_ANN_MIN_ROWS vectors (see lib/kbAnn.ts)
+  qaAnn?: KbAnnIndex | null;
+  contextAnn?: KbAnnIndex | null;
+};
+
+const KB_INDEX_TTL_MS = Number(process.env.KB_INDEX_TTL_MS || 60_000);
+
+// Per named KB
+const kbIndexCache = new Map<string, { index: Promise<KbIndex>; at: number }>();
+
+function magnitude(v: ArrayLike<number>) {
+  let sum = 0;
+  for (let i = 0; i < v.length; i++) sum += v[i] * v[i];
+  return Math.sqrt(sum);
+}
+
+function prepareRow(
+  x: KBItem,
+  fields: Pick<KBItem, "question" | "answer" | "content">,
+  lexical: KbLexicalDoc
+): PreparedRow {
+  // Vectors from another embedding model live in a different space; such
+  // rows are scored lexically until /api/reindex re-embeds them.
+  const foreign = !!x.embeddingModel && x.embeddingModel !== EMBEDDING_MODEL;
+  const vector = foreign ? new Float32Array(0) : toFloat32(x.embedding);
+  return {
+    item: { ...x, ...fields, embedding: vector },
+    lexical,
+    vector,
+    vectorNorm: magnitude(vector),
+    status: kbLifecycle(x) === "draft" ? "draft" : "approved",
+    expiresAt: kbExpiresAt(x),
+  };
+}
+
+export function buildKbIndex(
+  items: KBItem[],
+  version: string,
+  kb: string = currentKb()
+): KbIndex {
+  const now = Date.now();
+  const live = items.filter((x) => {
+    const status = kbLifecycle(x, now);
+    return status === "draft" || status === "approved";
+  });
+  const qaRaw = live.filter((x) => isQaKind(x));
+  const ctxRaw = live.filter((x) => isContextKind(x));
+
+  const qa: PreparedRow[] = [];
+  for (const x of qaRaw) {
+    const question = norm(x.question);
+    const answer = normalizeVendorNames(norm(x.answer));
+    if (!answer || answer.trim().length < 3) continue;
+    // Merged phrasings count as question text for the lexical match too
+    const aliases = (x.questionAliases || []).map(norm).join(" ");
+    qa.push(
+      prepareRow(
+        x,
+        { question, answer, content: norm(x.content) },
+        { question: `${question || ""} ${aliases}`, answer }
+      )
+    );
+  }
+
+  const context: PreparedRow[] = [];
+  for (const x of ctxRaw) {
+    const content = norm(x.content || x.answer || x.question);
+    if (!content) continue;
+    context.push(
+      prepareRow(
+        x,
+        {
+          question: norm(x.question),
+          answer: normalizeVendorNames(norm(x.answer)),
+          content,
+        },
+        { content }
+      )
+    );
+  }
+
+  console.log(
+    `[KB] Normalized QA rows (with usable answers): ${qa.length}/${qaRaw.length}`
+  );
+  console.log(
+    `[KB] Normalized context rows (with usable content): ${context.length}/${ctxRaw.length}`
+  );
+  if (live.length < items.length) {
+    console.log(
+      `[KB] Skipping ${items.length - live.length} deprecated / expired rows`
+    );
+  }
+  const foreign = items.filter(
+    (x) => x.embeddingModel && x.embeddingModel !== EMBEDDING_MODEL
+  ).length;
+  if (foreign) {
+    console.warn(
+      `[KB] ${foreign} rows were embedded with another model; scoring them lexically (run /api/reindex)`
+    );
+  }
+
+  return {
+    kb,
+    version,
+    builtAt: Date.now(),
+    qa,
+    context,
+    qaLexical: buildLexicalIndex(qa.map((r) => r.lexical)),
+    contextLexical: buildLexicalIndex(context.map((r) => r.lexical)),
+  };
+}
+
+// A row's ANN node is rebuilt when its vector changes
+function annRows(rows: PreparedRow[]) {
+  return rows.map((r) => {
+    const v = r.vector;
+    return {
+      id: r.item.id || "",
+      key: `${r.item.embeddedAt || ""}:${v.length}:${v[0]}:${v[v.length - 1]}`,
+      vector: v,
+      norm: r.vectorNorm,
+    };
+  });
+}
+
+/**
+ * The prepared index for the current KB, cached per process. Pass the
+ * result to retrieveMatchesWithContext() to score many queries against one
+ * consistent KB (e.g. every question of a report run).
+ */
+export function getKbIndex(): Promise<KbIndex> {
+  const kb = currentKb();
+  const cached = kbIndexCache.get(kb);
+  if (cached && Date.now() - cached.at < KB_INDEX_TTL_MS) {
+    return cached.index;
   }
+
+  const forget = () => {
+    if (kbIndexCache.get(kb)?.index === build) kbIndexCache.delete(kb);
+  };
+  const build = Promise.all([
+    loadKbVersioned(),
+    loadKbAliases(),
+  ]).then(async ([{ items, version }]) => {
+    // Never keep an index built from a failed read
+    if (version === UNAVAILABLE_VERSION) forget();
+    const index = buildKbIndex(items, version, kb);
+    index.qaAnn = await syncKbAnnIndex(
+      "qa",
+      annRows(index.qa),
+      EMBEDDING_MODEL
+    );
+    index.contextAnn = await syncKbAnnIndex(
+      "context",
+      annRows(index.context),
+      EMBEDDING_MODEL
+    );
+    return index;
+  });
+  build.catch(forget);
+
+  kbIndexCache.set(kb, { index: build, at: Date.now() });
+  return build;
+}
+
+/** Drop the cached index of the current KB (or of every KB). */
+export function invalidateKbIndex(all = false) {
+  if (all) kbIndexCache.clear();
+  else kbIndexCache.delete(currentKb());
 }
 
 // ---------- Core scoring helper ----------
+// Drafts still answer questions, but an approved row wins a close call.
+const DRAFT_SCORE_FACTOR = 0.9;
+// With an ANN index, only this many nearest rows (plus as many of the best
+// lexical hits) are scored exactly
+const ANN_CANDIDATES = Number(process.env.KB_ANN_CANDIDATES || 200);
+
+export type KbFusion = "weighted" | "rrf";
+
+// How semantic and lexical scores combine (see lib/kbProfiles.ts)
+export type KbScoring = {
+  fusion: KbFusion;
+  semanticWeight: number;
+  lexicalWeight: number;
+  rrfK: number; // reciprocal rank fusion: 1 / (rrfK + rank)
+};
+
+export const DEFAULT_KB_SCORING: KbScoring = {
+  fusion: "weighted",
+  semanticWeight: 0.7,
+  lexicalWeight: 0.3,
+  rrfK: 60,
+};
+
+// 1-based rank of every row by `scores` (rows scoring 0 are unranked)
+function ranksOf(scores: number[]): number[] {
+  const order = scores
+    .map((_, i) => i)
+    .filter((i) => scores[i] > 0)
+    .sort((a, b) => scores[b] - scores[a]);
+  const ranks = new Array(scores.length).fill(0);
+  order.forEach((i, r) => (ranks[i] = r + 1));
+  return ranks;
+}
+
+// Row indexes worth scoring exactly: the ANN's nearest rows and the best
+// lexical hits (rows of a foreign model are only reachable lexically).
+function annCandidates(
+  ann: KbAnnIndex,
+  queryEmbedding: number[],
+  lexicalScores: Float64Array | null,
+  limit: number
+): number[] {
+  const n = Math.max(ANN_CANDIDATES, limit * 10);
+  const out = new Set(ann.search(queryEmbedding, n));
+  if (lexicalScores) {
+    const hits: number[] = [];
+    lexicalScores.forEach((score, i) => {
+      if (score > 0) hits.push(i);
+    });
+    hits
+      .sort((a, b) => lexicalScores[b] - lexicalScores[a])
+      .slice(0, n)
+      .forEach((i) => out.add(i));
+  }
+  return Array.from(out);
+}
+
 function scoreRowsForQuery(
-  rows: KBItem[],
+  rows: PreparedRow[],
+  lexicalIndex: KbLexicalIndex,
   queryEmbedding: number[],
   queryText?: string,
-  mode: "qa" | "context" = "qa"
+  scoring: KbScoring = DEFAULT_KB_SCORING,
+  ann?: KbAnnIndex | null,
+  limit = 0
 ): KBScoredItem[] {
-  const qNorm = norm(queryText || "").toLowerCase();
-
-  return rows
-    .map((x) => {
-      let e: any = x.embedding;
-      if (typeof e === "string") {
-        try {
-          e = JSON.parse(e);
-        } catch {
-          e = [];
-        }
-      }
-
-      let question = norm(x.question);
-      let answer = normalizeVendorNames(norm(x.answer));
-      let content = norm(x.content);
-
-      // For QA, primary text is question+answer; for context, primary is content (or fallback)
-      let lexicalText: string;
-      if (mode === "qa") {
-        lexicalText = `${question || ""} ${answer || ""}`;
-      } else {
-        lexicalText = content || answer || question || "";
-      }
+  const qNorm = norm(queryText || "");
+  const lexicalScores = qNorm ? scoreLexical(lexicalIndex, qNorm) : null;
+  const hasQueryVector = !!queryEmbedding && queryEmbedding.length > 0;
+  const queryNorm = hasQueryVector ? magnitude(queryEmbedding) : 0;
+  const now = Date.now();
+
+  const useAnn = !!ann && hasQueryVector && ann.dims === queryEmbedding.length;
+  const candidates = useAnn
+    ? annCandidates(ann!, queryEmbedding, lexicalScores, limit)
+    : rows.map((_, i) => i);
+
+  const scored = candidates
+    .map((i) => ({
+      row: rows[i],
+      lexical: lexicalScores ? lexicalScores[i] : 0,
+    }))
+    .filter(({ row }) => row.expiresAt > now)
+    .map(({ row, lexical }) => {
+      const { vector } = row;
 
-      const embeddingArray: number[] = Array.isArray(e)
-        ? e.map((n: any) => Number(n) || 0)
-        : [];
+      // Vectors of a different length come from a different model and are
+      // never compared (not even truncated to the shorter length).
+      const comparable =
+        hasQueryVector && vector.length === queryEmbedding.length;
 
       let semantic = 0;
-      if (
-        queryEmbedding &&
-        queryEmbedding.length > 0 &&
-        embeddingArray.length > 0
-      ) {
-        const n = Math.min(queryEmbedding.length, embeddingArray.length);
-        semantic = cosine(
-          queryEmbedding.slice(0, n),
-          embeddingArray.slice(0, n)
-        );
+      if (comparable) {
+        let dot = 0;
+        for (let i = 0; i < vector.length; i++) {
+          dot += queryEmbedding[i] * vector[i];
+        }
+        semantic = dot / (queryNorm * row.vectorNorm || 1);
       }
+      return { row, comparable, semantic, lexical };
+    });
 
-      let lexical = 0;
-      if (qNorm) {
-        lexical = stringSimilarity.compareTwoStrings(
-          qNorm,
-          norm(lexicalText).toLowerCase()
-        );
-      }
+  const { semanticWeight: ws, lexicalWeight: wl, rrfK } = scoring;
+  let fused: number[];
+  if (scoring.fusion === "rrf") {
+    // Scaled so a row ranked first on both lists scores 1
+    const semRanks = ranksOf(
+      scored.map((x) => (x.comparable ? x.semantic : 0))
+    );
+    const lexRanks = ranksOf(scored.map((x) => x.lexical));
+    const best = (ws + wl) / (rrfK + 1) || 1;
+    fused = scored.map((_, i) => {
+      const sem = semRanks[i] ? ws / (rrfK + semRanks[i]) : 0;
+      const lex = lexRanks[i] ? wl / (rrfK + lexRanks[i]) : 0;
+      return (sem + lex) / best;
+    });
+  } else {
+    fused = scored.map((x) =>
+      x.comparable ? ws * x.semantic + wl * x.lexical : x.lexical
+    );
+  }
 
-      const finalScore =
-        embeddingArray.length > 0 && queryEmbedding.length > 0
-          ? 0.7 * semantic + 0.3 * lexical
-          : lexical;
-
-      const base: KBItem = {
-        ...x,
-        question,
-        answer,
-        content,
-        embedding: embeddingArray,
-      };
-
-      return {
-        ...base,
-        score: finalScore,
-        semanticScore: semantic,
-        lexicalScore: lexical,
-      };
-    })
+  return scored
+    .map(({ row, semantic, lexical }, i) => ({
+      ...row.item,
+      score: row.status === "draft" ? fused[i] * DRAFT_SCORE_FACTOR : fused[i],
+      semanticScore: semantic,
+      lexicalScore: lexical,
+      lifecycle: row.status,
+    }))
     .sort((a, b) => (b.score || 0) - (a.score || 0));
 }
 
@@ -224,74 +847,144 @@ export async function retrieveMatchesWithContext(
   queryEmbedding: number[],
   qaLimit = 5,
   contextLimit = 5,
-  queryText?: string
+  queryText?: string,
+  index?: KbIndex,
+  scoring?: KbScoring
 ): Promise<{ qaMatches: KBScoredItem[]; contextMatches: KBScoredItem[] }> {
-  const kb = await loadKb();
-  if (!Array.isArray(kb) || kb.length === 0) {
+  const { qa, context, qaLexical, contextLexical, qaAnn, contextAnn } =
+    index || (await getKbIndex());
+  if (!qa.length && !context.length) {
     console.warn("⚠️ KB empty or invalid");
     return { qaMatches: [], contextMatches: [] };
   }
 
-  const qaRaw = kb.filter((x) => isQaKind(x));
-  const ctxRaw = kb.filter((x) => isContextKind(x));
-
-  const qaPrepared = qaRaw
-    .map((x) => ({
-      ...x,
-      answer: normalizeVendorNames(norm(x.answer)),
-      question: norm(x.question),
-    }))
-    .filter(
-      (x) =>
-        x.answer &&
-        x.answer.trim().length > 0 &&
-        x.answer.trim().length >= 3
-    );
-
-  const ctxPrepared = ctxRaw
-    .map((x) => ({
-      ...x,
-      content: norm(x.content || x.answer || x.question),
-    }))
-    .filter((x) => x.content && x.content.trim().length > 0);
-
-  console.log(
-    `[KB] Normalized QA rows (with usable answers): ${qaPrepared.length}/${qaRaw.length}`
-  );
-  console.log(
-    `[KB] Normalized context rows (with usable content): ${ctxPrepared.length}/${ctxRaw.length}`
-  );
-
-  const qaScored = qaPrepared.length
-    ? scoreRowsForQuery(qaPrepared, queryEmbedding, queryText, "qa").slice(
-        0,
-        Math.min(qaLimit, qaPrepared.length)
-      )
+  const qaScored = qa.length
+    ? scoreRowsForQuery(
+        qa,
+        qaLexical,
+        queryEmbedding,
+        queryText,
+        scoring,
+        qaAnn,
+        qaLimit
+      ).slice(0, Math.min(qaLimit, qa.length))
     : [];
 
-  const ctxScored = ctxPrepared.length
+  const ctxScored = context.length
     ? scoreRowsForQuery(
-        ctxPrepared,
+        context,
+        contextLexical,
         queryEmbedding,
         queryText,
-        "context"
-      ).slice(0, Math.min(contextLimit, ctxPrepared.length))
+        scoring,
+        contextAnn,
+        contextLimit
+      ).slice(0, Math.min(contextLimit, context.length))
     : [];
 
   return { qaMatches: qaScored, contextMatches: ctxScored };
 }
 
+// ---------- Retrieval across several KBs ----------
+/**
+ * Search several KBs in priority order (first = highest). Matches scoring
+ * at least `minScore` rank by KB priority, then score, so a good answer
+ * from a higher-priority KB wins over a slightly better one from a fallback
+ * KB; weaker matches follow by score alone.
+ */
+export async function retrieveMatchesFromKbs(
+  indexes: KbIndex[],
+  queryEmbedding: number[],
+  qaLimit = 5,
+  contextLimit = 5,
+  queryText?: string,
+  minScore = 0,
+  scoring?: KbScoring
+): Promise<{ qaMatches: KBScoredItem[]; contextMatches: KBScoredItem[] }> {
+  return retrieveMatchesForQueries(
+    indexes,
+    [{ text: queryText, embedding: queryEmbedding }],
+    qaLimit,
+    contextLimit,
+    minScore,
+    scoring
+  );
+}
+
+export type KbQuery = { text?: string; embedding: number[] };
+
+/**
+ * Like retrieveMatchesFromKbs, for several phrasings of one question (see
+ * lib/kbQueryRewrite.ts). Every query searches every KB; a row found by
+ * more than one query keeps its best score.
+ */
+export async function retrieveMatchesForQueries(
+  indexes: KbIndex[],
+  queries: KbQuery[],
+  qaLimit = 5,
+  contextLimit = 5,
+  minScore = 0,
+  scoring?: KbScoring
+): Promise<{ qaMatches: KBScoredItem[]; contextMatches: KBScoredItem[] }> {
+  type Ranked = { m: KBScoredItem; rank: number };
+  const qa = new Map<string, Ranked>();
+  const ctx = new Map<string, Ranked>();
+  const keep = (into: Map<string, Ranked>, m: KBScoredItem, rank: number) => {
+    const key = `${rank}:${m.id ?? m.question ?? m.content}`;
+    const seen = into.get(key);
+    if (!seen || (m.score || 0) > (seen.m.score || 0)) {
+      into.set(key, { m, rank });
+    }
+  };
+
+  for (const query of queries) {
+    for (let rank = 0; rank < indexes.length; rank++) {
+      const index = indexes[rank];
+      const { qaMatches, contextMatches } = await retrieveMatchesWithContext(
+        query.embedding,
+        qaLimit,
+        contextLimit,
+        query.text,
+        index,
+        scoring
+      );
+      for (const m of qaMatches) keep(qa, { ...m, kb: index.kb }, rank);
+      for (const m of contextMatches) keep(ctx, { ...m, kb: index.kb }, rank);
+    }
+  }
+
+  const ordered = (list: Map<string, Ranked>, limit: number) =>
+    Array.from(list.values())
+      .sort((a, b) => {
+        const aGood = (a.m.score || 0) >= minScore;
+        const bGood = (b.m.score || 0) >= minScore;
+        if (aGood !== bGood) return aGood ? -1 : 1;
+        if (aGood && a.rank !== b.rank) return a.rank - b.rank;
+        return (b.m.score || 0) - (a.m.score || 0);
+      })
+      .slice(0, limit)
+      .map((x) => x.m);
+
+  return {
+    qaMatches: ordered(qa, qaLimit),
+    contextMatches: ordered(ctx, contextLimit),
+  };
+}
+
 // ---------- Retrieval (legacy: Q&A only) ----------
 export async function retrieveMatches(
   queryEmbedding: number[],
   limit = 5,
-  queryText?: string
+  queryText?: string,
+  scoring?: KbScoring
 ) {
   const { qaMatches } = await retrieveMatchesWithContext(
     queryEmbedding,
     limit,
     0,
-    queryText
+    queryText,
+    undefined,
+    scoring
   );
 
   if (qaMatches.length) {
@@ -314,59 +1007,83 @@ export async function retrieveMatches(
 }
 
 // ---------- Single-answer overwrite helper ----------
+// When `id` is given only that row is updated (and it must exist);
+// otherwise the first QA row with the same normalized question/source wins.
+// The row is embedded from its final text (an existing row keeps its own
+// question), so the stored vector always matches embeddingHash.
 export async function updateOrInsertAnswer(
   question: string,
   newAnswer: string,
   source?: string,
-  embedding?: number[]
+  id?: string,
+  audit?: KbAuditContext
 ): Promise<KBItem> {
-  const kb = await loadKb();
-
+  await loadKbAliases();
   const qKey = norm(question).toLowerCase();
   const sKey = norm(source || "");
-
-  let target: KBItem | undefined;
-
-  for (const row of kb) {
-    if (!isQaKind(row)) continue;
-    const rowQ = norm(row.question).toLowerCase();
-    const rowS = norm(row.source || "").toLowerCase();
-    if (rowQ === qKey && (sKey === "" || rowS === sKey)) {
-      target = row;
-      break;
-    }
-  }
-
   const normalizedAnswer = normalizeVendorNames(norm(newAnswer));
 
-  if (target) {
-    target.answer = normalizedAnswer;
-    if (embedding && Array.isArray(embedding)) {
-      target.embedding = embedding;
+  const findTarget = (kb: KBItem[]) => {
+    if (id) {
+      const row = kb.find((x) => x.id === id);
+      if (!row) throw new KbNotFoundError(id);
+      return row;
     }
-    if (!target.kind) target.kind = "qa";
-    if (!target.source && source) target.source = source;
-    console.log(
-      `[KB] Updated existing answer for question="${qKey}" source="${sKey}"`
+    return kb.find(
+      (row) =>
+        isQaKind(row) &&
+        norm(row.question).toLowerCase() === qKey &&
+        (sKey === "" || norm(row.source || "").toLowerCase() === sKey)
     );
-  } else {
+  };
+
+  // Embed up front (outside the retry loop) the text the row will have
+  const existing = findTarget(await loadKb());
+  const previewText = kbEmbeddingText({
+    kind: "qa",
+    question: existing ? existing.question : norm(question),
+    answer: normalizedAnswer,
+  });
+  const embedding = await embedText(previewText);
+  // A retry may see a row someone else changed; only reuse the vector if it
+  // was computed for exactly this text (embedding health repairs the rest)
+  const embedFor = (row: KBItem) =>
+    kbEmbeddingText(row) === previewText ? embedding : [];
+
+  // Safe to reapply on a fresh KB, so conflicts are retried by mutateKb.
+  const { result } = await mutateKb((kb) => {
+    const target = findTarget(kb);
+
+    if (target) {
+      target.answer = normalizedAnswer;
+      setKbLifecycle(target, "draft"); // new text needs another review
+      setKbEmbedding(target, embedFor(target));
+      if (!target.kind) target.kind = "qa";
+      if (!target.source && source) target.source = source;
+      console.log(
+        `[KB] Updated existing answer id=${target.id} question="${qKey}" source="${sKey}"`
+      );
+      return target;
+    }
+
     const item: KBItem = {
+      id: newKbId(),
       kind: "qa",
       question: norm(question),
       answer: normalizedAnswer,
       source: source || "manual-edit",
-      embedding: Array.isArray(embedding) ? embedding : [],
       origin: "manual-update",
+      status: "draft",
     };
+    setKbEmbedding(item, embedFor(item));
     kb.push(item);
-    target = item;
     console.log(
       `[KB] Inserted new QA item for question="${qKey}" source="${sKey}"`
     );
-  }
+    return item;
+  }, { audit });
 
-  await saveKb(kb);
-  return target;
+  return result;
 }
 
 // ---------- Hygiene / Maintenance ----------
@@ -374,29 +1091,79 @@ type SanitizeOpts = {
   minAnswerLen?: number;
   useGPT?: boolean;
   openaiKey?: string;
+  rules?: KbSanitizeRuleId[]; // enabled rules, all by default
+};
+
+export type KbSanitizeDrop = {
+  id?: string;
+  question?: string;
+  answer?: string;
+  reason: KbDropReason;
+  match?: string; // text that triggered the rule
+};
+
+// A kept row whose question or answer normalization rewrote
+export type KbSanitizeChange = {
+  id?: string;
+  before: { question?: string; answer?: string };
+  after: { question?: string; answer?: string };
+};
+
+export type KbSanitizeResult = {
+  items: KBItem[];
+  dropped: KbSanitizeDrop[];
+  normalized: KbSanitizeChange[];
 };
 
-export function sanitizeKb(items: KBItem[], opts: SanitizeOpts = {}) {
+function normalizeQa(x: KBItem) {
+  return {
+    question: norm(x.question),
+    answer: normalizeVendorNames(norm(x.answer)),
+  };
+}
+
+export async function sanitizeKb(
+  items: KBItem[],
+  opts: SanitizeOpts = {}
+): Promise<KbSanitizeResult> {
+  await loadKbAliases();
   const minAnswerLen = opts.minAnswerLen ?? 8;
+  const dropped: KbSanitizeDrop[] = [];
+  const drop = (x: KBItem, reason: KbDropReason, match?: string) => {
+    dropped.push({
+      id: x.id,
+      question: x.question,
+      answer: x.answer,
+      reason,
+      ...(match ? { match } : {}),
+    });
+  };
 
   // Split QA vs context; we only sanitize QA, pass context through unchanged
   const qaItems = items.filter((x) => isQaKind(x));
   const contextItems = items.filter((x) => isContextKind(x));
 
-  // 1) normalize + hard filters (QA only)
-  const pre = qaItems
-    .map((x) => ({
-      ...x,
-      question: norm(x.question),
-      answer: normalizeVendorNames(norm(x.answer)),
-    }))
-    .filter(
-      (x) =>
-        x.question &&
-        x.answer &&
-        !isGarbageAnswer(x.answer) &&
-        x.answer.length >= minAnswerLen
-    );
+  // 1) normalize + rule filters (QA only)
+  const pre: KBItem[] = [];
+  const original = new Map<KBItem, KBItem>();
+  for (const item of qaItems) {
+    const x = { ...item, ...normalizeQa(item) };
+    original.set(x, item);
+    if (!x.question || !x.answer) {
+      drop(x, "missing");
+      continue;
+    }
+    const broken = checkKbSanitizeRules(x.question, x.answer, opts.rules);
+    if (broken) {
+      drop(x, broken.rule, broken.match);
+      continue;
+    }
+    if (x.answer.length < minAnswerLen) {
+      drop(x, "too-short");
+      continue;
+    }
+    pre.push(x);
+  }
 
   // 2) dedupe exact (safe): question|answer
   const key = (x: KBItem) =>
@@ -407,20 +1174,97 @@ export function sanitizeKb(items: KBItem[], opts: SanitizeOpts = {}) {
   const dedup: KBItem[] = [];
   for (const it of pre) {
     const k = key(it);
-    if (seen.has(k)) continue;
+    if (seen.has(k)) {
+      drop(it, "duplicate");
+      continue;
+    }
     seen.add(k);
     dedup.push(it);
   }
 
-  // 3) optional GPT pass for borderline rows
-  const cleanedQa = !opts.useGPT || !opts.openaiKey
-    ? dedup
-    : // gptFilter only looks at question/answer; context rows are separate
-      // and we append them unchanged below.
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      gptFilter(dedup, opts.openaiKey);
+  // 3) optional GPT pass for borderline rows. gptFilter only looks at
+  // question/answer; context rows are appended unchanged below.
+  let cleanedQa = dedup;
+  if (opts.useGPT && opts.openaiKey) {
+    cleanedQa = await gptFilter(dedup, opts.openaiKey);
+    const kept = new Set(cleanedQa);
+    for (const it of dedup) if (!kept.has(it)) drop(it, "gpt");
+  }
+
+  const normalized: KbSanitizeChange[] = [];
+  for (const x of cleanedQa) {
+    const before = original.get(x)!;
+    if (before.question === x.question && before.answer === x.answer) continue;
+    normalized.push({
+      id: x.id,
+      before: { question: before.question, answer: before.answer },
+      after: { question: x.question, answer: x.answer },
+    });
+  }
+
+  const counts: Record<string, number> = {};
+  for (const d of dropped) counts[d.reason] = (counts[d.reason] || 0) + 1;
+  console.log(
+    `[KB] Sanitize: ${dropped.length} rows dropped, ${normalized.length} normalized`,
+    counts
+  );
+  return { items: [...cleanedQa, ...contextItems], dropped, normalized };
+}
+
+/**
+ * Apply an approved part of a sanitize dry run: remove the rows in `remove`
+ * and normalize the rows in `normalize` (by id). Ids no longer in the KB are
+ * reported as `missing`. With `expectedVersion` (the dry run's version) a
+ * KB that changed since the dry run is a conflict instead.
+ */
+export async function applyKbSanitize(
+  input: { remove?: string[]; normalize?: string[]; expectedVersion?: string },
+  audit?: KbAuditContext
+): Promise<{
+  removed: number;
+  normalized: number;
+  missing: string[];
+  saved: SaveKbResult;
+}> {
+  const ids = (list: any) =>
+    new Set<string>((Array.isArray(list) ? list : []).map(String));
+  const remove = ids(input.remove);
+  const normalize = ids(input.normalize);
+  await loadKbAliases();
+
+  const { result, saved } = await mutateKb(
+    (kb) => {
+      const seen = new Set<string>();
+      let normalized = 0;
+      let kept = 0;
+      for (const x of kb) {
+        const id = x.id || "";
+        if (remove.has(id)) {
+          seen.add(id);
+          continue;
+        }
+        if (normalize.has(id) && isQaKind(x)) {
+          seen.add(id);
+          const next = normalizeQa(x);
+          if (next.question !== x.question || next.answer !== x.answer) {
+            Object.assign(x, next);
+            normalized++;
+          }
+        }
+        kb[kept++] = x;
+      }
+      const removed = kb.length - kept;
+      kb.length = kept;
+      const missing = [...remove, ...normalize].filter((id) => !seen.has(id));
+      return { removed, normalized, missing };
+    },
+    { audit, expectedVersion: input.expectedVersion }
+  );
 
-  return [...cleanedQa, ...contextItems];
+  console.log(
+    `[KB] Sanitize applied: ${result.removed} removed, ${result.normalized} normalized, ${result.missing.length} missing`
+  );
+  return { ...result, saved };
 }
 
 async function gptFilter(items: KBItem[], key: string): Promise<KBItem[]> {
@@ -0,0 +1,169 @@
+// lib/kbAliases.ts
+// Alias dictionary: abbreviations expanded before text is embedded, scored
+// lexically or normalized into the KB ("LSWs" -> "licensed social workers").
+// One dictionary (aliases.json at the root of the backend) is shared by all
+// KBs so vectors stay comparable across them. applyAliases() is synchronous
+// and uses the dictionary last loaded by loadKbAliases(); callers that embed
+// or build an index load it first.
+import { getRootKbStore } from "@/lib/kbStore";
+
+const ALIASES_KEY = "aliases.json";
+const ALIASES_TTL_MS = Number(process.env.KB_INDEX_TTL_MS || 60_000);
+
+export type KbAlias = {
+  term: string; // matched as a whole word, case-insensitively, plural too
+  expansion: string;
+};
+
+// Used until an aliases.json is saved
+export const BUILTIN_ALIASES: KbAlias[] = [
+  { term: "LSW", expansion: "licensed social workers" },
+];
+
+export class KbAliasError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type CompiledAlias = KbAlias & { pattern: RegExp };
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compile(aliases: KbAlias[]): CompiledAlias[] {
+  // Longer terms first, so "SOC 2" wins over "SOC"
+  return [...aliases]
+    .sort((a, b) => b.term.length - a.term.length)
+    .map((a) => {
+      const term = escapeRegExp(a.term).replace(/\s+/g, "\\s+");
+      const pattern = new RegExp(`(?<![\\w-])${term}(s)?(?![\\w-])`, "gi");
+      return { ...a, pattern };
+    });
+}
+
+let active: { aliases: KbAlias[]; compiled: CompiledAlias[]; at: number } = {
+  aliases: BUILTIN_ALIASES,
+  compiled: compile(BUILTIN_ALIASES),
+  at: 0,
+};
+let loading: Promise<KbAlias[]> | null = null;
+
+/** `text` with every alias of `aliases` expanded. */
+export function expandAliases(
+  text: string,
+  aliases: KbAlias[] | CompiledAlias[]
+): string {
+  const compiled =
+    aliases.length && "pattern" in aliases[0]
+      ? (aliases as CompiledAlias[])
+      : compile(aliases);
+  let out = text || "";
+  for (const a of compiled) {
+    out = out.replace(a.pattern, (_m, plural) =>
+      plural && !/s$/i.test(a.expansion) ? a.expansion + "s" : a.expansion
+    );
+  }
+  return out;
+}
+
+/** Expand abbreviations with the active dictionary (see loadKbAliases). */
+export function applyAliases(text: string): string {
+  return expandAliases(text, active.compiled);
+}
+
+async function readAliases(): Promise<KbAlias[]> {
+  const raw = await getRootKbStore().read(ALIASES_KEY);
+  if (!raw) return BUILTIN_ALIASES;
+  try {
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return Array.isArray(parsed?.aliases) ? parsed.aliases : BUILTIN_ALIASES;
+  } catch {
+    return BUILTIN_ALIASES;
+  }
+}
+
+/**
+ * The dictionary, reloaded from the store at most every KB_INDEX_TTL_MS
+ * (saves on this instance apply at once). Also makes it the one
+ * applyAliases() uses.
+ */
+export function loadKbAliases(): Promise<KbAlias[]> {
+  if (Date.now() - active.at < ALIASES_TTL_MS) {
+    return Promise.resolve(active.aliases);
+  }
+  if (!loading) {
+    loading = readAliases()
+      .then((aliases) => {
+        active = { aliases, compiled: compile(aliases), at: Date.now() };
+        return aliases;
+      })
+      .catch((err) => {
+        console.warn(`[KB] Could not load aliases:`, err?.message || err);
+        return active.aliases;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+function validate(input: any): KbAlias[] {
+  if (!Array.isArray(input)) {
+    throw new KbAliasError("`aliases` must be an array.", 400);
+  }
+  const seen = new Set<string>();
+  return input.map((a, i) => {
+    const term = (a?.term ?? "").toString().replace(/\s+/g, " ").trim();
+    const expansion = (a?.expansion ?? "")
+      .toString()
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!term || !expansion) {
+      throw new KbAliasError(
+        `Alias ${i + 1}: \`term\` and \`expansion\` are required.`,
+        400
+      );
+    }
+    const key = term.toLowerCase();
+    if (seen.has(key)) {
+      throw new KbAliasError(`Alias ${i + 1}: duplicate term "${term}".`, 400);
+    }
+    seen.add(key);
+    // Expanding already-expanded text must not change it again
+    if (expandAliases(expansion, [{ term, expansion }]) !== expansion) {
+      throw new KbAliasError(
+        `Alias ${i + 1}: the expansion of "${term}" contains the term itself.`,
+        400
+      );
+    }
+    return { term, expansion };
+  });
+}
+
+/**
+ * Replace the dictionary. Returns the dictionary before and after, so the
+ * caller can re-embed the rows whose expanded text changed.
+ */
+export async function saveKbAliases(
+  input: any
+): Promise<{ before: KbAlias[]; aliases: KbAlias[] }> {
+  const store = getRootKbStore();
+  if (!store.writable) {
+    throw new KbAliasError("KB store is not writable", 503);
+  }
+  const aliases = validate(input);
+  const before = await readAliases();
+  await store.write(
+    ALIASES_KEY,
+    JSON.stringify({ aliases, updatedAt: new Date().toISOString() }, null, 2),
+    "application/json"
+  );
+  active = { aliases, compiled: compile(aliases), at: Date.now() };
+  console.log(`[KB] Saved alias dictionary (${aliases.length} aliases)`);
+  return { before, aliases };
+}
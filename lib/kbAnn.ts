@@ -0,0 +1,369 @@
+// lib/kbAnn.ts
+// Approximate nearest-neighbour index (HNSW graph) over a KB's row vectors.
+// Large KBs only: retrieval asks the graph for the closest few hundred rows
+// and scores just those exactly instead of every row. The graph is
+// persisted per KB (ann/<qa|context>.json, links only; vectors come from
+// the KB) and brought up to date incrementally when the retrieval index is
+// rebuilt after a KB write: rows that were removed or re-embedded leave the
+// graph, new ones are inserted.
+import { getKbStore } from "@/lib/kbStore";
+
+const ANN_FORMAT = 1;
+const M = 16; // links per node and layer (2 × M on layer 0)
+const EF_CONSTRUCTION = 64;
+const EF_SEARCH = Number(process.env.KB_ANN_EF_SEARCH || 128);
+// Below this many vectors a full scan is fast enough (and exact)
+export const KB_ANN_MIN_ROWS = Number(process.env.KB_ANN_MIN_ROWS || 5000);
+// Rebuild from scratch once this share of the graph has been removed
+const REBUILD_RATIO = 0.25;
+
+export type KbAnnRow = {
+  id: string;
+  key: string; // changes when the row's vector changes
+  vector: Float32Array;
+  norm: number;
+};
+
+export type KbAnnIndex = {
+  size: number;
+  dims: number;
+  /** Indexes (into the rows given to syncKbAnnIndex) of the ~k closest. */
+  search(query: ArrayLike<number>, k: number): number[];
+};
+
+type StoredGraph = {
+  format: number;
+  model: string;
+  dims: number;
+  entry: number;
+  maxLevel: number;
+  removedSinceBuild: number;
+  nodes: { id: string; key: string; links: number[][] }[];
+};
+
+// A removed node has no vector and no links
+type Node = {
+  id: string;
+  key: string;
+  links: number[][]; // per layer, 0 = bottom
+  vector: Float32Array | null;
+  norm: number;
+};
+
+type Scored = { node: number; sim: number };
+
+class HnswGraph {
+  nodes: Node[] = [];
+  entry = -1;
+  maxLevel = -1;
+  removedSinceBuild = 0;
+
+  private sim(q: ArrayLike<number>, qNorm: number, n: number): number {
+    const { vector, norm } = this.nodes[n];
+    if (!vector) return -Infinity;
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) dot += q[i] * vector[i];
+    return dot / (qNorm * norm || 1);
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - Math.random()) / Math.log(M));
+  }
+
+  // Best-first search of one layer; returns up to `ef` nodes, closest first
+  private searchLayer(
+    q: ArrayLike<number>,
+    qNorm: number,
+    entries: number[],
+    ef: number,
+    level: number
+  ): Scored[] {
+    const visited = new Set<number>(entries);
+    const candidates: Scored[] = entries.map((node) => ({
+      node,
+      sim: this.sim(q, qNorm, node),
+    }));
+    const results = candidates.filter((c) => c.sim > -Infinity);
+    candidates.sort((a, b) => a.sim - b.sim); // best last, for pop()
+    results.sort((a, b) => b.sim - a.sim);
+
+    while (candidates.length) {
+      const c = candidates.pop()!;
+      const worst = results[results.length - 1];
+      if (results.length >= ef && worst && c.sim < worst.sim) break;
+      for (const n of this.nodes[c.node].links[level] || []) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+        const sim = this.sim(q, qNorm, n);
+        if (sim === -Infinity) continue;
+        const worstNow = results[results.length - 1];
+        if (results.length < ef || sim > worstNow.sim) {
+          insertSorted(candidates, { node: n, sim }, (a, b) => a.sim - b.sim);
+          insertSorted(results, { node: n, sim }, (a, b) => b.sim - a.sim);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  // Keep the `max` links of `node` on `level` closest to it
+  private prune(node: number, level: number, max: number) {
+    const { vector, norm } = this.nodes[node];
+    const links = this.nodes[node].links[level];
+    if (!vector || links.length <= max) return;
+    this.nodes[node].links[level] = links
+      .map((n) => ({ n, sim: this.sim(vector, norm, n) }))
+      .filter((x) => x.sim > -Infinity)
+      .sort((a, b) => b.sim - a.sim)
+      .slice(0, max)
+      .map((x) => x.n);
+  }
+
+  insert(id: string, key: string, vector: Float32Array, norm: number) {
+    const node = this.nodes.length;
+    const level = this.randomLevel();
+    this.nodes.push({
+      id,
+      key,
+      vector,
+      norm,
+      links: Array.from({ length: level + 1 }, () => []),
+    });
+    if (this.entry === -1) {
+      this.entry = node;
+      this.maxLevel = level;
+      return node;
+    }
+
+    let entries = [this.entry];
+    for (let l = this.maxLevel; l > level; l--) {
+      const best = this.searchLayer(vector, norm, entries, 1, l)[0];
+      if (best) entries = [best.node];
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(vector, norm, entries, EF_CONSTRUCTION, l);
+      const max = l === 0 ? 2 * M : M;
+      const neighbors = found.slice(0, M).map((x) => x.node);
+      this.nodes[node].links[l] = neighbors;
+      for (const n of neighbors) {
+        this.nodes[n].links[l].push(node);
+        this.prune(n, l, max);
+      }
+      if (found.length) entries = found.map((x) => x.node);
+    }
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entry = node;
+    }
+    return node;
+  }
+
+  // Unlink a node and reconnect its live neighbours among themselves. Dead
+  // neighbours are skipped: prune() leaves their links alone, so they would
+  // pile up every removed node's links (fromJSON removes many at once).
+  remove(node: number) {
+    const gone = this.nodes[node];
+    if (!gone.links.length) return;
+    gone.links.forEach((all, level) => {
+      const neighbors = all.filter((n) => this.nodes[n].vector);
+      for (const n of neighbors) {
+        const links = this.nodes[n].links[level];
+        if (!links) continue;
+        const next = new Set(links.filter((x) => x !== node));
+        for (const other of neighbors) if (other !== n) next.add(other);
+        this.nodes[n].links[level] = Array.from(next);
+        this.prune(n, level, level === 0 ? 2 * M : M);
+      }
+    });
+    gone.vector = null;
+    gone.links = [];
+    this.removedSinceBuild++;
+
+    if (this.entry === node) {
+      this.entry = -1;
+      this.maxLevel = -1;
+      this.nodes.forEach((x, i) => {
+        if (x.vector && x.links.length - 1 > this.maxLevel) {
+          this.entry = i;
+          this.maxLevel = x.links.length - 1;
+        }
+      });
+    }
+  }
+
+  search(q: ArrayLike<number>, k: number): Scored[] {
+    if (this.entry === -1) return [];
+    let qNorm = 0;
+    for (let i = 0; i < q.length; i++) qNorm += q[i] * q[i];
+    qNorm = Math.sqrt(qNorm);
+
+    let entries = [this.entry];
+    for (let l = this.maxLevel; l > 0; l--) {
+      const best = this.searchLayer(q, qNorm, entries, 1, l)[0];
+      if (best) entries = [best.node];
+    }
+    return this.searchLayer(q, qNorm, entries, Math.max(EF_SEARCH, k), 0)
+      .slice(0, k);
+  }
+
+  get size() {
+    return this.nodes.length - this.removedCount();
+  }
+
+  removedCount() {
+    return this.nodes.filter((x) => !x.vector).length;
+  }
+
+  // Drops removed nodes and renumbers the rest
+  toJSON(model: string, dims: number): StoredGraph {
+    const renumber = new Map<number, number>();
+    this.nodes.forEach((x, i) => {
+      if (x.vector) renumber.set(i, renumber.size);
+    });
+    return {
+      format: ANN_FORMAT,
+      model,
+      dims,
+      entry: renumber.get(this.entry) ?? -1,
+      maxLevel: this.maxLevel,
+      removedSinceBuild: this.removedSinceBuild,
+      nodes: this.nodes
+        .filter((x) => x.vector)
+        .map((x) => ({
+          id: x.id,
+          key: x.key,
+          links: x.links.map((level) =>
+            level.filter((n) => renumber.has(n)).map((n) => renumber.get(n)!)
+          ),
+        })),
+    };
+  }
+
+  // Nodes whose row is missing or was re-embedded are removed right away
+  static fromJSON(stored: StoredGraph, rows: Map<string, KbAnnRow>) {
+    const g = new HnswGraph();
+    g.entry = stored.entry;
+    g.maxLevel = stored.maxLevel;
+    g.removedSinceBuild = stored.removedSinceBuild || 0;
+    g.nodes = stored.nodes.map((x) => {
+      const row = rows.get(x.id);
+      const same = !!row && row.key === x.key;
+      return {
+        id: x.id,
+        key: x.key,
+        links: x.links,
+        vector: same ? row!.vector : null,
+        norm: same ? row!.norm : 0,
+      };
+    });
+    g.nodes.forEach((x, i) => {
+      if (!x.vector) g.remove(i);
+    });
+    return g;
+  }
+}
+
+function insertSorted<T>(list: T[], item: T, cmp: (a: T, b: T) => number) {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cmp(list[mid], item) <= 0) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+function annKey(name: string) {
+  return `ann/${name}.json`;
+}
+
+async function readGraph(name: string): Promise<StoredGraph | null> {
+  try {
+    const raw = await getKbStore().read(annKey(name));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return parsed?.format === ANN_FORMAT ? parsed : null;
+  } catch (err: any) {
+    console.warn(`[KB] Could not read ANN index ${name}:`, err?.message);
+    return null;
+  }
+}
+
+/**
+ * The ANN index for `rows` (null below KB_ANN_MIN_ROWS), reusing and
+ * updating the persisted graph. Rows without a vector of the common length
+ * are left out; retrieval still scores them lexically.
+ */
+export async function syncKbAnnIndex(
+  name: "qa" | "context",
+  rows: KbAnnRow[],
+  model: string
+): Promise<KbAnnIndex | null> {
+  const dims = rows.find((r) => r.vector.length)?.vector.length || 0;
+  const usable = new Map<string, KbAnnRow>();
+  const rowIndex = new Map<string, number>();
+  rows.forEach((r, i) => {
+    if (!dims || r.vector.length !== dims || !r.norm || usable.has(r.id)) {
+      return;
+    }
+    usable.set(r.id, r);
+    rowIndex.set(r.id, i);
+  });
+  if (usable.size < KB_ANN_MIN_ROWS) return null;
+
+  const started = Date.now();
+  const stored = await readGraph(name);
+  const reusable =
+    stored && stored.model === model && stored.dims === dims ? stored : null;
+  let graph = reusable
+    ? HnswGraph.fromJSON(reusable, usable)
+    : new HnswGraph();
+  let removed = graph.removedCount();
+  if (graph.removedSinceBuild > REBUILD_RATIO * Math.max(graph.size, 1)) {
+    console.log(`[KB] Rebuilding ANN index ${name} (too many removals)`);
+    graph = new HnswGraph();
+    removed = 0;
+  }
+
+  const present = new Set(
+    graph.nodes.filter((x) => x.vector).map((x) => x.id)
+  );
+  let added = 0;
+  for (const [id, r] of usable) {
+    if (present.has(id)) continue;
+    graph.insert(id, r.key, r.vector, r.norm);
+    added++;
+  }
+
+  const store = getKbStore();
+  if ((added || removed || !reusable) && store.writable) {
+    await store
+      .write(
+        annKey(name),
+        JSON.stringify(graph.toJSON(model, dims)),
+        "application/json"
+      )
+      .catch((err) => {
+        console.warn(`[KB] Could not save ANN index ${name}:`, err?.message);
+      });
+  }
+  console.log(
+    `[KB] ANN index ${name}: ${graph.size} vectors (${added} added, ${removed} removed) in ${Date.now() - started}ms`
+  );
+
+  const nodeRows = graph.nodes.map((x) =>
+    x.vector ? rowIndex.get(x.id) ?? -1 : -1
+  );
+  return {
+    size: graph.size,
+    dims,
+    search(query, k) {
+      return graph
+        .search(query, k)
+        .map((x) => nodeRows[x.node])
+        .filter((i) => i >= 0);
+    },
+  };
+}
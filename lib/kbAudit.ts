@@ -0,0 +1,199 @@
+// lib/kbAudit.ts
+// Append-only audit trail of KB mutations. Each save writes one new object
+// under audit/ holding an entry per created, updated or deleted row; audit
+// objects are never rewritten.
+import { randomBytes } from "crypto";
+import { getKbStore } from "@/lib/kbStore";
+import { diffKb } from "@/lib/kbSnapshots";
+import type { KBItem } from "@/lib/kb";
+
+const AUDIT_PREFIX = "audit/";
+
+// Which path a change came through
+export type KbAuditSource =
+  | "chat-command" // chat `update:` command
+  | "chat-save" // ChatWidget "save to KB"
+  | "kb-update"
+  | "kb-update-answer"
+  | "ingest"
+  | "ingest-context"
+  | "sanitize"
+  | "api" // /api/kb/items
+  | "restore"
+  | "migration"
+  | "reindex"
+  | "embedding-repair"
+  | "import" // /api/kb/import
+  | "document-delete" // DELETE /api/kb/documents/:id
+  | "staging-commit" // /api/kb/staging/:id/commit
+  | "duplicate-merge" // /api/kb/duplicates/merge
+  | "conflict-resolve" // /api/kb/conflicts/resolve
+  | "aliases" // re-embedding after an alias dictionary change
+  | "unknown";
+
+export type KbAuditContext = {
+  actor: string;
+  route: string;
+  source: KbAuditSource;
+};
+
+export type KbAuditEntry = {
+  at: string;
+  itemId: string;
+  action: "create" | "update" | "delete";
+  actor: string;
+  route: string;
+  source: KbAuditSource;
+  fields?: string[];
+  before?: KBItem;
+  after?: KBItem;
+};
+
+export type KbAuditQuery = {
+  itemId?: string;
+  source?: string;
+  actor?: string;
+  from?: string; // ISO date/time, inclusive
+  to?: string; // ISO date/time, inclusive
+  limit?: number;
+};
+
+export const SYSTEM_AUDIT: KbAuditContext = {
+  actor: "system",
+  route: "internal",
+  source: "unknown",
+};
+
+/**
+ * Who is making the change: an explicit `x-kb-actor` header or `actor`
+ * field, else the caller's forwarded IP. There is no login, so this is
+ * best-effort attribution.
+ */
+export function auditContext(
+  req: Request,
+  route: string,
+  source: KbAuditSource,
+  body?: any
+): KbAuditContext {
+  const fromHeader = req.headers.get("x-kb-actor");
+  const fromBody = typeof body?.actor === "string" ? body.actor : "";
+  const ip = (req.headers.get("x-forwarded-for") || "").split(",")[0].trim();
+  const actor =
+    (fromHeader || fromBody).trim() || (ip ? `ip:${ip}` : "anonymous");
+  return { actor, route, source };
+}
+
+// Vectors are noise in an audit trail
+function strip(item: KBItem): KBItem {
+  const { embedding, ...rest } = item;
+  return rest;
+}
+
+export function buildKbAuditEntries(
+  before: KBItem[],
+  after: KBItem[],
+  ctx: KbAuditContext
+): KbAuditEntry[] {
+  const at = new Date().toISOString();
+  const base = { at, actor: ctx.actor, route: ctx.route, source: ctx.source };
+  const diff = diffKb(before, after);
+
+  return [
+    ...diff.added.map((x) => ({
+      ...base,
+      itemId: x.id || "",
+      action: "create" as const,
+      after: strip(x),
+    })),
+    ...diff.changed.map((c) => ({
+      ...base,
+      itemId: c.id,
+      action: "update" as const,
+      fields: c.fields,
+      before: strip(c.before),
+      after: strip(c.after),
+    })),
+    ...diff.removed.map((x) => ({
+      ...base,
+      itemId: x.id || "",
+      action: "delete" as const,
+      before: strip(x),
+    })),
+  ];
+}
+
+// "2026-10-19T17:32:55.842Z" <-> "2026-10-19T17-32-55-842Z"
+function keyStamp(iso: string) {
+  return iso.replace(/[:.]/g, "-");
+}
+
+function stampFromKey(key: string) {
+  return key.slice(AUDIT_PREFIX.length, AUDIT_PREFIX.length + 24);
+}
+
+export async function writeKbAudit(entries: KbAuditEntry[]) {
+  if (!entries.length) return;
+  const key = `${AUDIT_PREFIX}${keyStamp(entries[0].at)}-${randomBytes(3).toString(
+    "hex"
+  )}.jsonl`;
+  const body = entries.map((e) => JSON.stringify(e)).join("\n") + "\n";
+  try {
+    await getKbStore().write(key, body, "application/x-ndjson");
+    console.log(
+      `[KB] Audit: ${entries.length} change(s) via ${entries[0].source} by ${entries[0].actor}`
+    );
+  } catch (err: any) {
+    // The KB write already happened; losing the audit record is logged
+    // loudly rather than turned into a failed save.
+    console.error("❌ KB AUDIT WRITE ERROR", err?.message || err);
+  }
+}
+
+// A bare date ("2026-10-19") as the upper bound covers that whole day
+function boundStamp(value: string | undefined, endOfDay: boolean) {
+  if (!value) return "";
+  const t = Date.parse(value);
+  if (isNaN(t)) throw new Error(`Invalid date: ${value}`);
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  const ms = endOfDay && dateOnly ? t + 24 * 60 * 60 * 1000 - 1 : t;
+  return keyStamp(new Date(ms).toISOString());
+}
+
+/** Newest first. */
+export async function queryKbAudit(q: KbAuditQuery = {}) {
+  const limit = Math.min(1000, Math.max(1, Number(q.limit) || 200));
+  const fromStamp = boundStamp(q.from, false);
+  const toStamp = boundStamp(q.to, true);
+
+  const store = getKbStore();
+  const objects = (await store.list(AUDIT_PREFIX))
+    .filter((o) => {
+      const stamp = stampFromKey(o.key);
+      if (fromStamp && stamp < fromStamp) return false;
+      if (toStamp && stamp > toStamp) return false;
+      return true;
+    })
+    .sort((a, b) => b.key.localeCompare(a.key));
+
+  const out: KbAuditEntry[] = [];
+  for (const o of objects) {
+    const raw = await store.read(o.key);
+    if (!raw) continue;
+    const lines = raw.toString("utf8").split("\n").filter(Boolean);
+    for (const line of lines) {
+      let e: KbAuditEntry;
+      try {
+        e = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (q.itemId && e.itemId !== q.itemId) continue;
+      if (q.source && e.source !== q.source) continue;
+      if (q.actor && e.actor !== q.actor) continue;
+      out.push(e);
+    }
+    if (out.length >= limit) break;
+  }
+
+  return out.slice(0, limit);
+}
@@ -0,0 +1,253 @@
+// lib/kbContradictions.ts
+// Rows that answer the same question but disagree: different counts
+// ("how many psychiatrists"), different years, or yes vs. no. Conflicting
+// rows are grouped into a report; resolving a conflict keeps (and approves)
+// the winning row and deprecates the others, so retrieval stops feeding all
+// of them to the model.
+import { createHash } from "crypto";
+import { getKbStore } from "@/lib/kbStore";
+import {
+  loadKbVersioned,
+  mutateKb,
+  kbLifecycle,
+  setKbLifecycle,
+  KBItem,
+  KbLifecycle,
+} from "@/lib/kb";
+import { forEachSimilarPair, liveQaVectorRows } from "@/lib/kbDuplicates";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+const DISMISSED_KEY = "conflicts-dismissed.json";
+const DEFAULT_THRESHOLD = Number(process.env.KB_CONFLICT_THRESHOLD || 0.85);
+const MAX_CONFLICTS = 200;
+
+export type KbConflictKind = "number" | "date" | "yes-no";
+
+export type KbClaims = {
+  numbers: string[]; // counts, amounts and percentages (years excluded)
+  years: string[];
+  polarity: "yes" | "no" | null; // how the answer opens
+};
+
+export type KbConflictRow = {
+  id: string;
+  question: string;
+  answer: string;
+  source?: string;
+  lifecycle: KbLifecycle;
+  claims: KbClaims;
+};
+
+export type KbConflict = {
+  id: string; // changes when any member's answer changes
+  kinds: KbConflictKind[];
+  rows: KbConflictRow[];
+};
+
+export class KbContradictionError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+const YEAR_RE = /^(19|20)\d{2}$/;
+
+/** The checkable facts in an answer. */
+export function extractClaims(answer: string): KbClaims {
+  const text = norm(answer);
+  const numbers = new Set<string>();
+  const years = new Set<string>();
+  for (const m of text.matchAll(/\d[\d,]*(?:\.\d+)?%?/g)) {
+    const raw = m[0].replace(/,/g, "");
+    if (YEAR_RE.test(raw)) years.add(raw);
+    else numbers.add(raw);
+  }
+  const opening = text.toLowerCase().match(/^(yes|no)\b/);
+  return {
+    numbers: Array.from(numbers),
+    years: Array.from(years),
+    polarity: opening ? (opening[1] as "yes" | "no") : null,
+  };
+}
+
+// Two answers disagree on a kind of claim when both make it and share no
+// value; answers that repeat at least one figure are treated as compatible.
+function disagreements(a: KbClaims, b: KbClaims): KbConflictKind[] {
+  const disjoint = (x: string[], y: string[]) =>
+    x.length > 0 && y.length > 0 && !x.some((v) => y.includes(v));
+  const kinds: KbConflictKind[] = [];
+  if (disjoint(a.numbers, b.numbers)) kinds.push("number");
+  if (disjoint(a.years, b.years)) kinds.push("date");
+  if (a.polarity && b.polarity && a.polarity !== b.polarity) {
+    kinds.push("yes-no");
+  }
+  return kinds;
+}
+
+function conflictKey(items: KBItem[]) {
+  const key = items
+    .map((x) => `${x.id}:${norm(x.answer)}`)
+    .sort()
+    .join("\n");
+  return createHash("sha1").update(key).digest("hex").slice(0, 12);
+}
+
+async function readDismissed(): Promise<string[]> {
+  const raw = await getKbStore().read(DISMISSED_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Conflicting groups of rows. Rows sharing a question term are compared
+ * when their embeddings are at least `threshold` similar (default
+ * KB_CONFLICT_THRESHOLD or 0.85); conflicts dismissed earlier are left out.
+ */
+export async function findKbConflicts(
+  opts: { threshold?: number; limit?: number } = {}
+): Promise<{ version: string; threshold: number; conflicts: KbConflict[] }> {
+  const threshold =
+    Number(opts.threshold) > 0 && Number(opts.threshold) <= 1
+      ? Number(opts.threshold)
+      : DEFAULT_THRESHOLD;
+  const limit = Math.min(
+    MAX_CONFLICTS,
+    Math.max(1, Number(opts.limit) || MAX_CONFLICTS)
+  );
+
+  const { items, version } = await loadKbVersioned();
+  const rows = liveQaVectorRows(items);
+  const claims = rows.map((r) => extractClaims(r.item.answer));
+
+  // Union-find over conflicting pairs, remembering why they conflict
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const kindsOf = new Map<number, Set<KbConflictKind>>();
+  // Only rows whose questions share a term are compared
+  forEachSimilarPair(rows, threshold, (i, j) => {
+    const kinds = disagreements(claims[i], claims[j]);
+    if (!kinds.length) return;
+    const root = find(j);
+    const merged = new Set([
+      ...(kindsOf.get(find(i)) || []),
+      ...(kindsOf.get(root) || []),
+      ...kinds,
+    ]);
+    parent[find(i)] = root;
+    kindsOf.set(root, merged);
+  });
+
+  const groups = new Map<number, number[]>();
+  rows.forEach((_, i) => {
+    const root = find(i);
+    if (kindsOf.has(root)) groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  const dismissed = new Set(await readDismissed());
+  const conflicts: KbConflict[] = [];
+  for (const [root, members] of groups) {
+    const id = conflictKey(members.map((i) => rows[i].item));
+    if (dismissed.has(id)) continue;
+    conflicts.push({
+      id,
+      kinds: Array.from(kindsOf.get(root)!),
+      rows: members.map((i) => ({
+        id: rows[i].item.id!,
+        question: norm(rows[i].item.question),
+        answer: norm(rows[i].item.answer),
+        source: rows[i].item.source,
+        lifecycle: kbLifecycle(rows[i].item),
+        claims: claims[i],
+      })),
+    });
+  }
+  conflicts.sort((a, b) => b.rows.length - a.rows.length);
+
+  console.log(
+    `[KB] Conflict scan: ${conflicts.length} conflicts among ${rows.length} rows (threshold ${threshold})`
+  );
+  return { version, threshold, conflicts: conflicts.slice(0, limit) };
+}
+
+/**
+ * Settle a conflict: `winnerId` is approved, every row in `loserIds` is
+ * deprecated with `supersededBy` pointing at the winner.
+ */
+export async function resolveKbConflict(
+  input: { winnerId?: string; loserIds?: string[] },
+  audit?: KbAuditContext
+): Promise<{ winner: KBItem; deprecated: number; version: string }> {
+  const winnerId = norm(input.winnerId);
+  const loserIds = Array.from(
+    new Set((Array.isArray(input.loserIds) ? input.loserIds : []).map(norm))
+  ).filter((id) => id && id !== winnerId);
+  if (!winnerId || !loserIds.length) {
+    throw new KbContradictionError(
+      "`winnerId` and `loserIds` are required.",
+      400
+    );
+  }
+
+  const { result, saved } = await mutateKb(
+    (kb) => {
+      const byId = new Map(kb.map((x) => [x.id, x]));
+      const missing = [winnerId, ...loserIds].filter((id) => !byId.has(id));
+      if (missing.length) {
+        throw new KbContradictionError(
+          `KB items not found: ${missing.join(", ")}`,
+          404
+        );
+      }
+
+      const winner = byId.get(winnerId)!;
+      if (winner.status !== "approved") {
+        setKbLifecycle(winner, "approved", audit?.actor);
+      }
+      for (const id of loserIds) {
+        const loser = byId.get(id)!;
+        setKbLifecycle(loser, "deprecated");
+        loser.supersededBy = winnerId;
+      }
+      return { winner, deprecated: loserIds.length };
+    },
+    { audit }
+  );
+  if (!saved.ok) {
+    throw new KbContradictionError(saved.error || "Save failed", 503);
+  }
+
+  console.log(
+    `[KB] Resolved conflict: kept ${winnerId}, deprecated ${loserIds.length} rows`
+  );
+  return { ...result, version: saved.version };
+}
+
+/** Mark a reported conflict as a false positive so it is not reported again. */
+export async function dismissKbConflict(conflictId: string) {
+  const id = norm(conflictId);
+  if (!id) throw new KbContradictionError("`conflictId` is required.", 400);
+  const dismissed = await readDismissed();
+  if (!dismissed.includes(id)) {
+    dismissed.push(id);
+    await getKbStore().write(
+      DISMISSED_KEY,
+      JSON.stringify(dismissed, null, 2),
+      "application/json"
+    );
+  }
+  console.log(`[KB] Dismissed conflict ${id}`);
+}
@@ -0,0 +1,206 @@
+// lib/kbDocuments.ts
+// Registry of the source files ingested into a KB (documents.json, next to
+// kb.json). Rows created from a file carry its `docId`, so a document can be
+// removed together with every row it produced and its uploaded raw file.
+import { createHash, randomUUID } from "crypto";
+import { getKbStore } from "@/lib/kbStore";
+import { mutateKb } from "@/lib/kb";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+const DOCUMENTS_KEY = "documents.json";
+
+export type KbDocumentKind = "qa" | "context";
+
+// One uploaded version of a document
+export type KbDocumentVersion = {
+  hash: string; // sha256 of the file bytes
+  uploadKey: string; // raw file, relative to the KB's store
+  url: string;
+  ingestedAt: string;
+  rows: number; // rows the ingest added (or kept, for a re-ingest)
+};
+
+export type KbSourceDocument = KbDocumentVersion & {
+  id: string;
+  filename: string;
+  kind: KbDocumentKind;
+  version?: number; // 1 when absent
+  previousVersions?: KbDocumentVersion[]; // oldest first
+};
+
+export class KbDocumentError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function hashDocument(buf: Buffer): string {
+  return createHash("sha256").update(buf).digest("hex");
+}
+
+async function readDocuments(): Promise<KbSourceDocument[]> {
+  const raw = await getKbStore().read(DOCUMENTS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Read-modify-write of documents.json, one at a time per process
+let documentsChain: Promise<unknown> = Promise.resolve();
+
+function updateDocuments<T>(
+  fn: (docs: KbSourceDocument[]) => T
+): Promise<T> {
+  const run = documentsChain.then(async () => {
+    const docs = await readDocuments();
+    const result = fn(docs);
+    await getKbStore().write(
+      DOCUMENTS_KEY,
+      JSON.stringify(docs, null, 2),
+      "application/json"
+    );
+    return result;
+  });
+  documentsChain = run.catch(() => undefined);
+  return run;
+}
+
+/** Newest first. */
+export async function listKbDocuments(): Promise<KbSourceDocument[]> {
+  const docs = await readDocuments();
+  return docs.sort((a, b) => b.ingestedAt.localeCompare(a.ingestedAt));
+}
+
+export async function getKbDocument(
+  id: string
+): Promise<KbSourceDocument | null> {
+  return (await readDocuments()).find((d) => d.id === id) || null;
+}
+
+/** An earlier ingest of exactly these bytes (as the same kind), if any. */
+export async function findKbDocumentByHash(
+  hash: string,
+  kind: KbDocumentKind
+): Promise<KbSourceDocument | null> {
+  const docs = await readDocuments();
+  return docs.find((d) => d.hash === hash && d.kind === kind) || null;
+}
+
+/** The document a file with this name was last ingested as, if any. */
+export async function findKbDocumentByFilename(
+  filename: string,
+  kind: KbDocumentKind
+): Promise<KbSourceDocument | null> {
+  const docs = await listKbDocuments();
+  return docs.find((d) => d.filename === filename && d.kind === kind) || null;
+}
+
+/**
+ * Upload the raw file under uploads/ and return a document record for it.
+ * The record is only registered (see registerKbDocument) once its rows are
+ * saved; rows should carry `docId: doc.id` so they can be purged with it.
+ */
+export async function uploadKbDocument(
+  buf: Buffer,
+  filename: string,
+  kind: KbDocumentKind,
+  contentType = "application/octet-stream"
+): Promise<KbSourceDocument> {
+  const uploadKey = "uploads/" + Date.now() + "-" + filename;
+  const uploaded = await getKbStore().write(uploadKey, buf, contentType);
+  return {
+    id: randomUUID(),
+    filename,
+    hash: hashDocument(buf),
+    kind,
+    uploadKey,
+    url: uploaded.url,
+    ingestedAt: new Date().toISOString(),
+    rows: 0,
+  };
+}
+
+export async function registerKbDocument(doc: KbSourceDocument) {
+  await updateDocuments((docs) => {
+    docs.push(doc);
+  });
+  console.log(
+    `[KB] Registered document ${doc.id} "${doc.filename}" (${doc.rows} rows)`
+  );
+}
+
+/**
+ * Make `next` (a fresh upload) the current version of document `id`. The
+ * document keeps its id, so its rows stay attached to it.
+ */
+export async function replaceKbDocumentVersion(
+  id: string,
+  next: KbDocumentVersion
+): Promise<KbSourceDocument> {
+  const doc = await updateDocuments((docs) => {
+    const current = docs.find((d) => d.id === id);
+    if (!current) throw new KbDocumentError(`Document not found: ${id}`, 404);
+    const { hash, uploadKey, url, ingestedAt, rows } = current;
+    current.previousVersions = [
+      ...(current.previousVersions || []),
+      { hash, uploadKey, url, ingestedAt, rows },
+    ];
+    current.version = (current.version || 1) + 1;
+    current.hash = next.hash;
+    current.uploadKey = next.uploadKey;
+    current.url = next.url;
+    current.ingestedAt = next.ingestedAt;
+    current.rows = next.rows;
+    return { ...current };
+  });
+  console.log(
+    `[KB] Document ${id} "${doc.filename}" is now version ${doc.version}`
+  );
+  return doc;
+}
+
+/** Remove a document, the KB rows it produced and its uploaded file. */
+export async function deleteKbDocument(
+  id: string,
+  audit?: KbAuditContext
+): Promise<{ document: KbSourceDocument; rowsRemoved: number }> {
+  const store = getKbStore();
+  if (!store.writable) {
+    throw new KbDocumentError("KB store is not writable", 503);
+  }
+  const doc = await getKbDocument(id);
+  if (!doc) throw new KbDocumentError(`Document not found: ${id}`, 404);
+
+  const { result: rowsRemoved, saved } = await mutateKb(
+    (kb) => {
+      let kept = 0;
+      for (const x of kb) if (x.docId !== id) kb[kept++] = x;
+      const removed = kb.length - kept;
+      kb.length = kept;
+      return removed;
+    },
+    { audit }
+  );
+  if (!saved.ok) throw new KbDocumentError(saved.error || "Save failed", 503);
+
+  for (const v of [doc, ...(doc.previousVersions || [])]) {
+    await store.remove(v.uploadKey).catch((err) => {
+      console.warn(`[KB] Could not remove upload ${v.uploadKey}:`, err);
+    });
+  }
+  await updateDocuments((docs) => {
+    const idx = docs.findIndex((d) => d.id === id);
+    if (idx !== -1) docs.splice(idx, 1);
+  });
+
+  console.log(
+    `[KB] Deleted document ${id} "${doc.filename}" and ${rowsRemoved} rows`
+  );
+  return { document: doc, rowsRemoved };
+}
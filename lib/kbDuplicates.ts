@@ -0,0 +1,319 @@
+// lib/kbDuplicates.ts
+// Near-duplicate Q/A rows: the same answer reworded across past RFPs.
+// Rows are grouped by embedding similarity (single-link: a row joins a
+// group when it is close to any member). Only rows that share a question
+// term are compared, not every pair. Each group gets a proposed
+// canonical row, and an editor can merge a group into one row that keeps
+// the other phrasings as `questionAliases`.
+import { createHash } from "crypto";
+import { embedText, EMBEDDING_MODEL } from "@/lib/embed";
+import {
+  loadKbVersioned,
+  mutateKb,
+  kbEmbeddingText,
+  kbLifecycle,
+  setKbEmbedding,
+  setKbLifecycle,
+  KBItem,
+  KbLifecycle,
+} from "@/lib/kb";
+import { toFloat32 } from "@/lib/kbVectors";
+import { tokenize } from "@/lib/kbLexical";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+const DEFAULT_THRESHOLD = Number(process.env.KB_DUPLICATE_THRESHOLD || 0.92);
+const MAX_GROUPS = 200;
+// A question term shared by more rows than this is too common to suggest
+// two rows ask the same thing, so it does not form a bucket
+const MAX_BUCKET = Number(process.env.KB_SIMILAR_MAX_BUCKET || 200);
+
+export type KbDuplicateMember = {
+  id: string;
+  question: string;
+  answer: string;
+  source?: string;
+  lifecycle: KbLifecycle;
+  similarity: number; // cosine similarity to the canonical row
+};
+
+export type KbDuplicateGroup = {
+  id: string; // stable for the same set of rows
+  canonicalId: string;
+  members: KbDuplicateMember[]; // canonical first
+};
+
+export class KbDuplicateError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+export type KbVectorRow = { item: KBItem; unit: Float32Array };
+
+/** Live QA rows with a vector from the current model, scaled to length 1. */
+export function liveQaVectorRows(items: KBItem[]): KbVectorRow[] {
+  const now = Date.now();
+  const out: KbVectorRow[] = [];
+  for (const item of items) {
+    if ((item.kind ?? "qa") !== "qa" || !item.id) continue;
+    const status = kbLifecycle(item, now);
+    if (status !== "draft" && status !== "approved") continue;
+    if (item.embeddingModel && item.embeddingModel !== EMBEDDING_MODEL) {
+      continue;
+    }
+    const v = toFloat32(item.embedding);
+    let sum = 0;
+    for (let i = 0; i < v.length; i++) sum += v[i] * v[i];
+    if (!sum) continue;
+    const unit = new Float32Array(v.length);
+    const inv = 1 / Math.sqrt(sum);
+    for (let i = 0; i < v.length; i++) unit[i] = v[i] * inv;
+    out.push({ item, unit });
+  }
+  return out;
+}
+
+/** Cosine similarity of two unit vectors (0 for different lengths). */
+export function unitSimilarity(a: Float32Array, b: Float32Array) {
+  if (a.length !== b.length) return 0;
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+/**
+ * Calls `visit(i, j, similarity)` for each pair of `rows` (i < j) that is
+ * at least `threshold` similar. Rows are bucketed by the terms of their
+ * question and aliases, and by the question as a whole; only rows sharing
+ * a bucket are compared, instead of every pair.
+ */
+export function forEachSimilarPair(
+  rows: KbVectorRow[],
+  threshold: number,
+  visit: (i: number, j: number, similarity: number) => void
+) {
+  const buckets = new Map<string, number[]>();
+  const keysOf = rows.map((r, i) => {
+    const questions = [r.item.question, ...(r.item.questionAliases || [])];
+    const keys = new Set<string>();
+    for (const q of questions) {
+      const terms = tokenize(norm(q));
+      if (!terms.length) continue;
+      // The whole question is always a bucket, however common its words
+      keys.add("=" + terms.join(" "));
+      for (const t of terms) keys.add(t);
+    }
+    for (const key of keys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+    return keys;
+  });
+
+  const compared = new Set<number>();
+  let pairs = 0;
+  for (let i = 0; i < rows.length; i++) {
+    compared.clear();
+    for (const key of keysOf[i]) {
+      const bucket = buckets.get(key)!;
+      if (bucket.length > MAX_BUCKET && !key.startsWith("=")) continue;
+      for (const j of bucket) {
+        if (j <= i || compared.has(j)) continue;
+        compared.add(j);
+        pairs++;
+        const similarity = unitSimilarity(rows[i].unit, rows[j].unit);
+        if (similarity >= threshold) visit(i, j, similarity);
+      }
+    }
+  }
+  console.log(
+    `[KB] Compared ${pairs} candidate pairs among ${rows.length} rows`
+  );
+}
+
+// Approved beats draft; then the row closest to the rest of the group; then
+// the longer (usually more complete) answer.
+function pickCanonical(group: KbVectorRow[]): KbVectorRow {
+  const centrality = (c: KbVectorRow) =>
+    group.reduce(
+      (sum, o) => (o === c ? sum : sum + unitSimilarity(c.unit, o.unit)),
+      0
+    );
+  const ranked = group.map((c) => ({
+    c,
+    approved: kbLifecycle(c.item) === "approved" ? 1 : 0,
+    central: centrality(c),
+    length: norm(c.item.answer).length,
+  }));
+  ranked.sort(
+    (a, b) =>
+      b.approved - a.approved ||
+      b.central - a.central ||
+      b.length - a.length
+  );
+  return ranked[0].c;
+}
+
+/**
+ * Group near-duplicate QA rows. `threshold` is the cosine similarity two
+ * rows need to be linked (default KB_DUPLICATE_THRESHOLD or 0.92). Largest
+ * groups first.
+ */
+export async function findKbDuplicateGroups(
+  opts: { threshold?: number; limit?: number } = {}
+): Promise<{
+  version: string;
+  threshold: number;
+  groups: KbDuplicateGroup[];
+}> {
+  const threshold =
+    Number(opts.threshold) > 0 && Number(opts.threshold) <= 1
+      ? Number(opts.threshold)
+      : DEFAULT_THRESHOLD;
+  const limit = Math.min(
+    MAX_GROUPS,
+    Math.max(1, Number(opts.limit) || MAX_GROUPS)
+  );
+
+  const { items, version } = await loadKbVersioned();
+  const rows = liveQaVectorRows(items);
+
+  // Union-find over the candidate pairs above the threshold
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  forEachSimilarPair(rows, threshold, (i, j) => {
+    parent[find(i)] = find(j);
+  });
+
+  const byRoot = new Map<number, KbVectorRow[]>();
+  rows.forEach((c, i) => {
+    const root = find(i);
+    byRoot.set(root, [...(byRoot.get(root) || []), c]);
+  });
+
+  const groups: KbDuplicateGroup[] = [];
+  for (const group of byRoot.values()) {
+    if (group.length < 2) continue;
+    const canonical = pickCanonical(group);
+    const similarity = (c: KbVectorRow) =>
+      unitSimilarity(canonical.unit, c.unit);
+    const members = [
+      canonical,
+      ...group
+        .filter((c) => c !== canonical)
+        .sort((a, b) => similarity(b) - similarity(a)),
+    ].map((c) => ({
+      id: c.item.id!,
+      question: norm(c.item.question),
+      answer: norm(c.item.answer),
+      source: c.item.source,
+      lifecycle: kbLifecycle(c.item),
+      similarity: Number(similarity(c).toFixed(4)),
+    }));
+    const ids = members.map((m) => m.id).sort().join(",");
+    groups.push({
+      id: createHash("sha1").update(ids).digest("hex").slice(0, 12),
+      canonicalId: canonical.item.id!,
+      members,
+    });
+  }
+  groups.sort((a, b) => b.members.length - a.members.length);
+
+  console.log(
+    `[KB] Duplicate scan: ${groups.length} groups among ${rows.length} rows (threshold ${threshold})`
+  );
+  return { version, threshold, groups: groups.slice(0, limit) };
+}
+
+/**
+ * Merge rows into `keepId`: their questions become its `questionAliases`
+ * and the rows are removed. `answer` optionally replaces the kept answer
+ * (e.g. with a better one from a merged row); it is then re-embedded and
+ * the row goes back to draft for review.
+ */
+export async function mergeKbDuplicates(
+  input: { keepId?: string; mergeIds?: string[]; answer?: string },
+  audit?: KbAuditContext
+): Promise<{ item: KBItem; merged: number; version: string }> {
+  const keepId = norm(input.keepId);
+  const mergeIds = Array.from(
+    new Set((Array.isArray(input.mergeIds) ? input.mergeIds : []).map(norm))
+  ).filter((id) => id && id !== keepId);
+  if (!keepId || !mergeIds.length) {
+    throw new KbDuplicateError("`keepId` and `mergeIds` are required.", 400);
+  }
+
+  const answer = norm(input.answer);
+  const { items } = await loadKbVersioned();
+  const keep = items.find((x) => x.id === keepId);
+  if (!keep) throw new KbDuplicateError(`KB item not found: ${keepId}`, 404);
+  // Embed up front (outside the retry loop) if the answer changes
+  const embedding =
+    answer && answer !== norm(keep.answer)
+      ? await embedText(kbEmbeddingText({ ...keep, answer }))
+      : undefined;
+
+  const { result, saved } = await mutateKb(
+    (kb) => {
+      const target = kb.find((x) => x.id === keepId);
+      if (!target) {
+        throw new KbDuplicateError(`KB item not found: ${keepId}`, 404);
+      }
+      const others = kb.filter((x) => x.id && mergeIds.includes(x.id));
+      if (others.length !== mergeIds.length) {
+        const found = new Set(others.map((x) => x.id));
+        const missing = mergeIds.filter((id) => !found.has(id));
+        throw new KbDuplicateError(
+          `KB items not found: ${missing.join(", ")}`,
+          404
+        );
+      }
+
+      const own = norm(target.question).toLowerCase();
+      const aliases = new Map<string, string>();
+      for (const q of [
+        ...(target.questionAliases || []),
+        ...others.flatMap((x) => [x.question, ...(x.questionAliases || [])]),
+      ]) {
+        const text = norm(q);
+        const key = text.toLowerCase();
+        if (text && key !== own && !aliases.has(key)) aliases.set(key, text);
+      }
+      target.questionAliases = Array.from(aliases.values());
+      target.mergedFrom = [
+        ...(target.mergedFrom || []),
+        ...others.map((x) => x.id!),
+      ];
+
+      if (answer && answer !== norm(target.answer)) {
+        target.answer = answer;
+        setKbEmbedding(target, embedding || []);
+        // Approval covered the old answer
+        if (kbLifecycle(target) === "approved") setKbLifecycle(target, "draft");
+      }
+
+      const merged = new Set(mergeIds);
+      let kept = 0;
+      for (const x of kb) if (!merged.has(x.id || "")) kb[kept++] = x;
+      kb.length = kept;
+      return { item: target, merged: others.length };
+    },
+    { audit }
+  );
+  if (!saved.ok) throw new KbDuplicateError(saved.error || "Save failed", 503);
+
+  console.log(
+    `[KB] Merged ${result.merged} rows into ${keepId} (${result.item.questionAliases?.length || 0} aliases)`
+  );
+  return { ...result, version: saved.version };
+}
@@ -0,0 +1,194 @@
+// lib/kbEmbeddingHealth.ts
+// Reporting on rows whose embedding failed, and a repair job that retries
+// just those rows. Each failure pushes the row's next retry further out
+// (see setKbEmbedding), so the job can run often without hammering the
+// embeddings API for rows that keep failing.
+import { embedText, EmbeddingResult } from "@/lib/embed";
+import {
+  loadKbVersioned,
+  mutateKb,
+  snapshotKb,
+  kbEmbeddingIssue,
+  kbEmbeddingText,
+  setKbEmbedding,
+  KBItem,
+} from "@/lib/kb";
+import { SYSTEM_AUDIT, KbAuditContext } from "@/lib/kbAudit";
+
+const BATCH_SIZE = 50;
+const PARALLEL = 5;
+const SAMPLE_SIZE = 50;
+
+export type KbEmbeddingFailure = {
+  id: string;
+  kind: string;
+  text: string;
+  error: string;
+  attempts: number;
+  failedAt?: string;
+  retryAt?: string;
+};
+
+export type KbEmbeddingHealth = {
+  total: number;
+  healthy: number;
+  failed: number; // last embed attempt errored
+  missing: number; // no vector and no recorded error (legacy rows)
+  stale: Record<string, number>; // usable vector, but see /api/reindex
+  retryableNow: number;
+  nextRetryAt: string | null;
+  errors: Record<string, number>;
+  failures: KbEmbeddingFailure[];
+};
+
+export type RepairResult = {
+  attempted: number;
+  repaired: number;
+  failed: number;
+  remaining: number; // broken rows left, due now or later
+};
+
+function isBroken(item: KBItem) {
+  if (!kbEmbeddingText(item).trim()) return false; // nothing to embed
+  return !!item.embeddingError || kbEmbeddingIssue(item) === "missing";
+}
+
+function isDue(item: KBItem, now: number) {
+  const at = Date.parse(item.embeddingRetryAt || "");
+  return isNaN(at) || at <= now;
+}
+
+// Group "HTTP 429: {...}" style errors by their leading part
+function errorClass(error: string) {
+  return error.split(":")[0].trim() || "Unknown";
+}
+
+export async function getKbEmbeddingHealth(): Promise<KbEmbeddingHealth> {
+  const { items } = await loadKbVersioned();
+  const now = Date.now();
+
+  const health: KbEmbeddingHealth = {
+    total: items.length,
+    healthy: 0,
+    failed: 0,
+    missing: 0,
+    stale: {},
+    retryableNow: 0,
+    nextRetryAt: null,
+    errors: {},
+    failures: [],
+  };
+
+  for (const item of items) {
+    const issue = kbEmbeddingIssue(item);
+    if (!isBroken(item)) {
+      if (!issue) health.healthy++;
+      else health.stale[issue] = (health.stale[issue] || 0) + 1;
+      continue;
+    }
+
+    if (item.embeddingError) {
+      health.failed++;
+      const cls = errorClass(item.embeddingError);
+      health.errors[cls] = (health.errors[cls] || 0) + 1;
+    } else {
+      health.missing++;
+    }
+
+    if (isDue(item, now)) {
+      health.retryableNow++;
+    } else if (
+      !health.nextRetryAt ||
+      item.embeddingRetryAt! < health.nextRetryAt
+    ) {
+      health.nextRetryAt = item.embeddingRetryAt!;
+    }
+
+    if (health.failures.length < SAMPLE_SIZE) {
+      health.failures.push({
+        id: item.id || "",
+        kind: item.kind ?? "qa",
+        text: kbEmbeddingText(item).slice(0, 160),
+        error: item.embeddingError || "No embedding",
+        attempts: Number(item.embeddingAttempts) || 0,
+        failedAt: item.embeddingFailedAt,
+        retryAt: item.embeddingRetryAt,
+      });
+    }
+  }
+
+  return health;
+}
+
+/**
+ * Retry broken rows whose backoff has elapsed. Successes clear the error;
+ * failures record it again with a longer backoff.
+ */
+export async function repairKbEmbeddings(
+  opts: { limit?: number; audit?: KbAuditContext } = {}
+): Promise<RepairResult> {
+  const limit = Number(opts.limit) > 0 ? Number(opts.limit) : Infinity;
+  const out: RepairResult = {
+    attempted: 0,
+    repaired: 0,
+    failed: 0,
+    remaining: 0,
+  };
+
+  for (;;) {
+    const { items } = await loadKbVersioned();
+    const now = Date.now();
+    const broken = items.filter((x) => x.id && isBroken(x));
+    const due = broken.filter((x) => isDue(x, now));
+    out.remaining = broken.length;
+
+    if (!due.length || out.attempted >= limit) break;
+
+    const batch = due.slice(0, Math.min(BATCH_SIZE, limit - out.attempted));
+    const results = new Map<
+      string,
+      { text: string; result: EmbeddingResult }
+    >();
+
+    for (let i = 0; i < batch.length; i += PARALLEL) {
+      const group = batch.slice(i, i + PARALLEL);
+      const embeds = await Promise.all(
+        group.map((x) => embedText(kbEmbeddingText(x)))
+      );
+      group.forEach((x, k) => {
+        results.set(x.id!, { text: kbEmbeddingText(x), result: embeds[k] });
+      });
+    }
+
+    const { result: counts, saved } = await mutateKb(
+      (kb) => {
+        let repaired = 0;
+        let failed = 0;
+        for (const row of kb) {
+          const r = row.id ? results.get(row.id) : undefined;
+          // Edited meanwhile: whoever edited it embedded the new text
+          if (!r || kbEmbeddingText(row) !== r.text) continue;
+          setKbEmbedding(row, r.result);
+          if (r.result.vector.length) repaired++;
+          else failed++;
+        }
+        return { repaired, failed };
+      },
+      {
+        audit: opts.audit || { ...SYSTEM_AUDIT, source: "embedding-repair" },
+        snapshot: false,
+      }
+    );
+    if (!saved.ok) throw new Error(saved.error || "KB save failed");
+
+    out.attempted += batch.length;
+    out.repaired += counts.repaired;
+    out.failed += counts.failed;
+    console.log(
+      `[KB] Embedding repair: ${counts.repaired} repaired, ${counts.failed} still failing`
+    );
+  }
+
+  if (out.attempted) await snapshotKb();
+  return out;
+}
@@ -0,0 +1,251 @@
+// lib/kbItems.ts
+// ID-based CRUD over KB rows, used by /api/kb/items.
+import { embedText } from "@/lib/embed";
+import {
+  loadKbVersioned,
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  kbLifecycle,
+  setKbLifecycle,
+  KbConflictError,
+  KbLifecycle,
+  KB_LIFECYCLE_STATES,
+  KBItem,
+  SaveKbResult,
+} from "@/lib/kb";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+export type KbItemFilter = {
+  q?: string; // substring match on question / answer / content
+  kind?: "qa" | "context";
+  source?: string;
+  status?: KbLifecycle; // effective status (see kbLifecycle)
+  offset?: number;
+  limit?: number;
+};
+
+export type KbItemPage = {
+  version: string;
+  total: number;
+  offset: number;
+  limit: number;
+  items: KBItem[];
+};
+
+// Fields a client may set on create / patch. Everything else is managed here.
+const EDITABLE_FIELDS = [
+  "kind",
+  "question",
+  "answer",
+  "content",
+  "source",
+  "sourceFile",
+  "doc",
+  "origin",
+  "status",
+  "reviewer",
+  "validUntil",
+] as const;
+
+const MAX_PAGE = 500;
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+// Embeddings are large and useless to API clients; expose a flag instead,
+// plus the effective lifecycle status.
+export function publicKbItem(item: KBItem): KBItem {
+  const { embedding, ...rest } = item;
+  const hasEmbedding =
+    typeof embedding === "string"
+      ? embedding.length > 2
+      : (embedding?.length ?? 0) > 0;
+  return { ...rest, hasEmbedding, lifecycle: kbLifecycle(item) };
+}
+
+function pickEditable(input: any): Partial<KBItem> {
+  const out: Record<string, any> = {};
+  for (const f of EDITABLE_FIELDS) {
+    if (input?.[f] === undefined) continue;
+    out[f] = f === "kind" ? input[f] : norm(input[f]);
+  }
+  return out as Partial<KBItem>;
+}
+
+export function validateKbItem(item: KBItem): string | null {
+  if (item.kind && item.kind !== "qa" && item.kind !== "context") {
+    return "`kind` must be \"qa\" or \"context\".";
+  }
+  if (item.kind === "context") {
+    if (!norm(item.content)) return "Context items require `content`.";
+  } else if (!norm(item.question) || !norm(item.answer)) {
+    return "QA items require both `question` and `answer`.";
+  }
+  if (item.status && !KB_LIFECYCLE_STATES.includes(item.status)) {
+    return `\`status\` must be one of: ${KB_LIFECYCLE_STATES.join(", ")}.`;
+  }
+  if (item.validUntil && isNaN(Date.parse(item.validUntil))) {
+    return "`validUntil` must be a date (YYYY-MM-DD or ISO timestamp).";
+  }
+  return null;
+}
+
+export class KbItemError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export async function listKbItems(filter: KbItemFilter = {}): Promise<KbItemPage> {
+  const { items: kb, version } = await loadKbVersioned();
+  const q = norm(filter.q).toLowerCase();
+  const source = norm(filter.source).toLowerCase();
+
+  const matching = kb.filter((x) => {
+    if (filter.kind && (x.kind ?? "qa") !== filter.kind) return false;
+    if (source && norm(x.source).toLowerCase() !== source) return false;
+    if (filter.status && kbLifecycle(x) !== filter.status) return false;
+    if (q) {
+      const hay = `${x.question || ""} ${x.answer || ""} ${x.content || ""}`;
+      if (!norm(hay).toLowerCase().includes(q)) return false;
+    }
+    return true;
+  });
+
+  const offset = Math.max(0, Number(filter.offset) || 0);
+  const limit = Math.min(MAX_PAGE, Math.max(1, Number(filter.limit) || 50));
+
+  return {
+    version,
+    total: matching.length,
+    offset,
+    limit,
+    items: matching.slice(offset, offset + limit).map(publicKbItem),
+  };
+}
+
+export async function getKbItem(
+  id: string
+): Promise<{ item: KBItem; version: string } | null> {
+  const { items: kb, version } = await loadKbVersioned();
+  const item = kb.find((x) => x.id === id);
+  return item ? { item: publicKbItem(item), version } : null;
+}
+
+function requireSaved(saved: SaveKbResult): string {
+  if (!saved.ok) throw new KbItemError(saved.error || "Save failed", 503);
+  return saved.version;
+}
+
+// patch/delete: without `expectedVersion` a conflicting write is retried on
+// a fresh KB. With it (an If-Match from a client that showed the row to an
+// editor) the write fails fast so the editor can review what changed.
+
+export async function createKbItem(
+  input: any,
+  audit?: KbAuditContext
+): Promise<{ item: KBItem; version: string }> {
+  const fields = pickEditable(input);
+  const item: KBItem = {
+    kind: "qa",
+    source: "manual",
+    origin: "api",
+    status: "draft",
+    ...fields,
+    id: newKbId(),
+  };
+
+  const problem = validateKbItem(item);
+  if (problem) throw new KbItemError(problem, 400);
+  if (item.status === "approved") {
+    setKbLifecycle(item, "approved", item.reviewer || audit?.actor);
+  }
+
+  setKbEmbedding(item, await embedText(kbEmbeddingText(item)));
+
+  const { saved } = await mutateKb(
+    (kb) => {
+      kb.push(item);
+    },
+    { audit }
+  );
+  const version = requireSaved(saved);
+
+  console.log(`[KB] Created item id=${item.id}`);
+  return { item: publicKbItem(item), version };
+}
+
+export async function patchKbItem(
+  id: string,
+  input: any,
+  expectedVersion?: string,
+  audit?: KbAuditContext
+): Promise<{ item: KBItem; version: string }> {
+  const fields = pickEditable(input);
+
+  // Embed up front (outside the retry loop) against the current row text.
+  const current = await getKbItem(id);
+  if (!current) throw new KbItemError(`KB item not found: ${id}`, 404);
+  if (expectedVersion && current.version !== expectedVersion) {
+    throw new KbConflictError(expectedVersion, current.version);
+  }
+
+  const preview: KBItem = { ...current.item, ...fields, id };
+  const problem = validateKbItem(preview);
+  if (problem) throw new KbItemError(problem, 400);
+
+  const textChanged =
+    kbEmbeddingText(preview) !== kbEmbeddingText(current.item);
+  const embedding = textChanged
+    ? await embedText(kbEmbeddingText(preview))
+    : undefined;
+
+  const { result: next, saved } = await mutateKb((kb) => {
+    const idx = kb.findIndex((x) => x.id === id);
+    if (idx === -1) throw new KbItemError(`KB item not found: ${id}`, 404);
+
+    const updated: KBItem = { ...kb[idx], ...fields, id };
+    if (fields.status === "approved" && kb[idx].status !== "approved") {
+      setKbLifecycle(updated, "approved", fields.reviewer || audit?.actor);
+    } else if (
+      !fields.status &&
+      kbEmbeddingText(updated) !== kbEmbeddingText(kb[idx]) &&
+      kbLifecycle(updated) === "approved"
+    ) {
+      // Approval covered the old text; an edit needs another review
+      setKbLifecycle(updated, "draft");
+    }
+    // A retry may see text someone else changed; only reuse the vector if
+    // it was computed for exactly this text.
+    if (embedding && kbEmbeddingText(updated) === kbEmbeddingText(preview)) {
+      setKbEmbedding(updated, embedding);
+    }
+    kb[idx] = updated;
+    return updated;
+  }, { expectedVersion, audit });
+  const version = requireSaved(saved);
+
+  console.log(`[KB] Patched item id=${id}`);
+  return { item: publicKbItem(next), version };
+}
+
+export async function deleteKbItem(
+  id: string,
+  expectedVersion?: string,
+  audit?: KbAuditContext
+): Promise<{ item: KBItem; version: string }> {
+  const { result: removed, saved } = await mutateKb((kb) => {
+    const idx = kb.findIndex((x) => x.id === id);
+    if (idx === -1) throw new KbItemError(`KB item not found: ${id}`, 404);
+    return kb.splice(idx, 1)[0];
+  }, { expectedVersion, audit });
+  const version = requireSaved(saved);
+
+  console.log(`[KB] Deleted item id=${id}`);
+  return { item: publicKbItem(removed), version };
+}
@@ -0,0 +1,122 @@
+// lib/kbLexical.ts
+// BM25 keyword index over prepared KB rows (BM25F: per-field weights and
+// length normalization). Built once per KB version alongside the prepared
+// rows in buildKbIndex(); a query only touches the postings of its own
+// terms instead of comparing against every row's text.
+
+export type KbLexicalField = "question" | "answer" | "content";
+
+export type KbLexicalDoc = Partial<Record<KbLexicalField, string>>;
+
+type Posting = { row: number; tf: number }; // tf: weighted, length-normalized
+
+export type KbLexicalIndex = {
+  size: number; // rows indexed
+  postings: Map<string, Posting[]>;
+  idf: Map<string, number>;
+};
+
+// A question hit says more than the same word somewhere in a long answer
+export const KB_LEXICAL_FIELD_WEIGHTS: Record<KbLexicalField, number> = {
+  question: 2,
+  answer: 1,
+  content: 1,
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by can could do does did for from has " +
+    "have how i if in into is it its may me my no not of on or our ours " +
+    "please provide describe explain shall should so such than that the " +
+    "their them then there these they this those to us was we were what " +
+    "when where which who whom why will with would you your yours"
+  ).split(" ")
+);
+
+// Light suffix folding so "providers" matches "provider"
+function stem(t: string) {
+  if (t.length > 4 && t.endsWith("ies")) return t.slice(0, -3) + "y";
+  if (t.length > 3 && t.endsWith("s") && !/(ss|us|is)$/.test(t)) {
+    return t.slice(0, -1);
+  }
+  return t;
+}
+
+/** Lowercased, stopword-free, lightly stemmed terms of `text`. */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  for (const raw of (text || "").toLowerCase().split(/[^a-z0-9]+/)) {
+    if (!raw || STOPWORDS.has(raw)) continue;
+    if (raw.length < 2 && !/\d/.test(raw)) continue;
+    out.push(stem(raw));
+  }
+  return out;
+}
+
+export function buildLexicalIndex(docs: KbLexicalDoc[]): KbLexicalIndex {
+  const fields = Object.keys(KB_LEXICAL_FIELD_WEIGHTS) as KbLexicalField[];
+  const tokens = docs.map((d) =>
+    Object.fromEntries(fields.map((f) => [f, tokenize(d[f] || "")]))
+  ) as Record<KbLexicalField, string[]>[];
+
+  const avgLen = {} as Record<KbLexicalField, number>;
+  for (const f of fields) {
+    const total = tokens.reduce((sum, t) => sum + t[f].length, 0);
+    avgLen[f] = docs.length ? total / docs.length || 1 : 1;
+  }
+
+  const postings = new Map<string, Posting[]>();
+  tokens.forEach((byField, row) => {
+    const weighted = new Map<string, number>();
+    for (const f of fields) {
+      const terms = byField[f];
+      if (!terms.length) continue;
+      const lengthNorm = 1 - B + (B * terms.length) / avgLen[f];
+      const w = KB_LEXICAL_FIELD_WEIGHTS[f] / lengthNorm;
+      for (const t of terms) weighted.set(t, (weighted.get(t) || 0) + w);
+    }
+    for (const [t, tf] of weighted) {
+      const list = postings.get(t);
+      if (list) list.push({ row, tf });
+      else postings.set(t, [{ row, tf }]);
+    }
+  });
+
+  const idf = new Map<string, number>();
+  const n = docs.length;
+  for (const [t, list] of postings) {
+    const df = list.length;
+    idf.set(t, Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+  }
+
+  return { size: n, postings, idf };
+}
+
+/**
+ * BM25 score of every row for `queryText`, scaled to 0..1: a row that
+ * saturates every query term the index knows scores close to 1. Terms no
+ * row contains are ignored.
+ */
+export function scoreLexical(
+  index: KbLexicalIndex,
+  queryText: string
+): Float64Array {
+  const scores = new Float64Array(index.size);
+  const terms = Array.from(new Set(tokenize(queryText)));
+  let maxScore = 0;
+  for (const t of terms) {
+    const idf = index.idf.get(t);
+    if (!idf) continue;
+    maxScore += idf;
+    for (const { row, tf } of index.postings.get(t)!) {
+      scores[row] += (idf * tf) / (K1 + tf);
+    }
+  }
+  if (maxScore > 0) {
+    for (let i = 0; i < scores.length; i++) scores[i] /= maxScore;
+  }
+  return scores;
+}
@@ -0,0 +1,296 @@
+// lib/kbProfiles.ts
+// Named retrieval profiles: how many matches to fetch, the score a match
+// needs, how semantic and lexical scores combine, how many context chunks to
+// use and what to do when nothing passes. Profiles are stored per KB
+// (profiles.json, next to kb.json); chat and report pick one with
+// `?profile=<name>` and otherwise use the KB's default profile.
+import { getKbStore } from "@/lib/kbStore";
+import { DEFAULT_KB_SCORING, KbFusion, KbScoring } from "@/lib/kb";
+import { MAX_REWRITE_QUERIES } from "@/lib/kbQueryRewrite";
+
+const PROFILES_KEY = "profiles.json";
+const BUILTIN = "default";
+
+export type KbFallback =
+  | "top-matches" // nothing passes minScore: use the best matches anyway
+  | "none"; // nothing passes minScore: answer without KB matches
+
+export type KbRetrievalProfile = KbScoring & {
+  name: string;
+  description?: string;
+  topK: number; // QA matches retrieved per question
+  minScore: number; // matches below this are only used as a fallback
+  contextLimit: number; // context chunks retrieved per question
+  fallback: KbFallback;
+  queryRewrite: number; // report: LLM search queries per question, 0 = off
+  rerank: boolean; // have an LLM rate and reorder the matches
+  rerankMinScore: number; // reranked matches below this are dropped
+};
+
+type ProfilesFile = {
+  defaultProfile?: string;
+  profiles: KbRetrievalProfile[];
+};
+
+export class KbProfileError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// The values chat and report used before profiles existed
+export const BUILTIN_PROFILE: KbRetrievalProfile = {
+  name: BUILTIN,
+  description: "Built-in defaults",
+  topK: 10,
+  minScore: 0.32,
+  contextLimit: 5,
+  fallback: "top-matches",
+  queryRewrite: 0,
+  rerank: false,
+  rerankMinScore: 0.3,
+  ...DEFAULT_KB_SCORING,
+};
+
+const FUSIONS: KbFusion[] = ["weighted", "rrf"];
+const FALLBACKS: KbFallback[] = ["top-matches", "none"];
+
+async function readProfiles(): Promise<ProfilesFile> {
+  const raw = await getKbStore().read(PROFILES_KEY);
+  if (!raw) return { profiles: [] };
+  try {
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return {
+      defaultProfile: parsed?.defaultProfile,
+      profiles: Array.isArray(parsed?.profiles) ? parsed.profiles : [],
+    };
+  } catch {
+    return { profiles: [] };
+  }
+}
+
+async function writeProfiles(file: ProfilesFile) {
+  const store = getKbStore();
+  if (!store.writable) {
+    throw new KbProfileError("KB store is not writable", 503);
+  }
+  await store.write(
+    PROFILES_KEY,
+    JSON.stringify(file, null, 2),
+    "application/json"
+  );
+}
+
+function numberIn(
+  value: any,
+  fallback: number,
+  field: string,
+  min: number,
+  max: number
+): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new KbProfileError(
+      `\`${field}\` must be a number from ${min} to ${max}.`,
+      400
+    );
+  }
+  return n;
+}
+
+// Unset fields fall back to `base` (the stored profile or the built-in one)
+function validateProfile(
+  input: any,
+  base: KbRetrievalProfile
+): KbRetrievalProfile {
+  const name = (input?.name ?? "").toString().trim().toLowerCase();
+  if (!/^[a-z0-9][a-z0-9-]{0,39}$/.test(name)) {
+    throw new KbProfileError(
+      "`name` must be 1-40 characters: lowercase letters, digits and dashes.",
+      400
+    );
+  }
+  const fusion = input?.fusion ?? base.fusion;
+  if (!FUSIONS.includes(fusion)) {
+    throw new KbProfileError("`fusion` must be weighted or rrf.", 400);
+  }
+  const fallback = input?.fallback ?? base.fallback;
+  if (!FALLBACKS.includes(fallback)) {
+    throw new KbProfileError("`fallback` must be top-matches or none.", 400);
+  }
+  const rerank = input?.rerank ?? base.rerank ?? false;
+  if (typeof rerank !== "boolean") {
+    throw new KbProfileError("`rerank` must be true or false.", 400);
+  }
+
+  const profile: KbRetrievalProfile = {
+    name,
+    topK: Math.round(numberIn(input?.topK, base.topK, "topK", 1, 50)),
+    minScore: numberIn(input?.minScore, base.minScore, "minScore", 0, 1),
+    contextLimit: Math.round(
+      numberIn(input?.contextLimit, base.contextLimit, "contextLimit", 0, 20)
+    ),
+    fallback,
+    queryRewrite: Math.round(
+      numberIn(
+        input?.queryRewrite,
+        base.queryRewrite ?? 0,
+        "queryRewrite",
+        0,
+        MAX_REWRITE_QUERIES
+      )
+    ),
+    rerank,
+    rerankMinScore: numberIn(
+      input?.rerankMinScore,
+      base.rerankMinScore ?? BUILTIN_PROFILE.rerankMinScore,
+      "rerankMinScore",
+      0,
+      1
+    ),
+    fusion,
+    semanticWeight: numberIn(
+      input?.semanticWeight,
+      base.semanticWeight,
+      "semanticWeight",
+      0,
+      1
+    ),
+    lexicalWeight: numberIn(
+      input?.lexicalWeight,
+      base.lexicalWeight,
+      "lexicalWeight",
+      0,
+      1
+    ),
+    rrfK: numberIn(input?.rrfK, base.rrfK, "rrfK", 1, 1000),
+  };
+  if (!profile.semanticWeight && !profile.lexicalWeight) {
+    throw new KbProfileError(
+      "`semanticWeight` and `lexicalWeight` cannot both be 0.",
+      400
+    );
+  }
+  const description = (input?.description ?? base.description ?? "")
+    .toString()
+    .trim();
+  if (description) profile.description = description;
+  return profile;
+}
+
+/** The built-in profile plus the current KB's own, and the KB's default. */
+export async function listRetrievalProfiles(): Promise<{
+  defaultProfile: string;
+  profiles: KbRetrievalProfile[];
+}> {
+  const file = await readProfiles();
+  const own = file.profiles.filter((p) => p.name !== BUILTIN);
+  const builtin =
+    file.profiles.find((p) => p.name === BUILTIN) || BUILTIN_PROFILE;
+  return {
+    defaultProfile: file.defaultProfile || BUILTIN,
+    profiles: [builtin, ...own.sort((a, b) => a.name.localeCompare(b.name))],
+  };
+}
+
+/**
+ * The profile a request asked for, or the KB's default. An unknown name is
+ * an error rather than a silent fallback.
+ */
+export async function resolveRetrievalProfile(
+  name?: string | null
+): Promise<KbRetrievalProfile> {
+  const { defaultProfile, profiles } = await listRetrievalProfiles();
+  const wanted = (name || "").trim().toLowerCase();
+  const found = profiles.find((p) => p.name === (wanted || defaultProfile));
+  if (found) return found;
+  if (wanted) {
+    throw new KbProfileError(`Retrieval profile not found: ${wanted}`, 404);
+  }
+  // A default that was deleted since
+  return profiles[0];
+}
+
+/**
+ * Create or update a profile (fields left out keep their current value).
+ * `makeDefault` also makes it the KB's default. The built-in "default"
+ * profile can be overridden the same way.
+ */
+export async function saveRetrievalProfile(
+  input: any,
+  makeDefault = false
+): Promise<KbRetrievalProfile> {
+  const file = await readProfiles();
+  const name = (input?.name ?? "").toString().trim().toLowerCase();
+  const current =
+    file.profiles.find((p) => p.name === name) ||
+    (name === BUILTIN ? BUILTIN_PROFILE : null);
+  const profile = validateProfile(
+    input,
+    current || { ...BUILTIN_PROFILE, description: undefined }
+  );
+
+  file.profiles = [
+    ...file.profiles.filter((p) => p.name !== profile.name),
+    profile,
+  ];
+  if (makeDefault) file.defaultProfile = profile.name;
+  await writeProfiles(file);
+  console.log(
+    `[KB] Saved retrieval profile "${profile.name}"` +
+      (makeDefault ? " (default)" : "")
+  );
+  return profile;
+}
+
+/** Make an existing profile the KB's default. */
+export async function setDefaultRetrievalProfile(name: string) {
+  const wanted = (name || "").trim().toLowerCase();
+  const { profiles } = await listRetrievalProfiles();
+  if (!profiles.some((p) => p.name === wanted)) {
+    throw new KbProfileError(`Retrieval profile not found: ${wanted}`, 404);
+  }
+  const file = await readProfiles();
+  file.defaultProfile = wanted;
+  await writeProfiles(file);
+  console.log(`[KB] Default retrieval profile is now "${wanted}"`);
+}
+
+/**
+ * Delete a profile. Deleting "default" restores the built-in values; a KB
+ * whose default profile is deleted falls back to "default".
+ */
+export async function deleteRetrievalProfile(name: string) {
+  const wanted = (name || "").trim().toLowerCase();
+  const file = await readProfiles();
+  const before = file.profiles.length;
+  file.profiles = file.profiles.filter((p) => p.name !== wanted);
+  if (file.profiles.length === before) {
+    throw new KbProfileError(`Retrieval profile not found: ${wanted}`, 404);
+  }
+  if (file.defaultProfile === wanted) delete file.defaultProfile;
+  await writeProfiles(file);
+  console.log(`[KB] Deleted retrieval profile "${wanted}"`);
+}
+
+/**
+ * The matches a profile lets through: answered matches at or above
+ * `minScore`, or (fallback "top-matches") every answered match when none
+ * pass.
+ */
+export function selectProfileMatches<
+  T extends { score?: number; answer?: string }
+>(
+  matches: T[],
+  profile: KbRetrievalProfile
+): { matches: T[]; fellBack: boolean } {
+  const answered = (matches || []).filter((m) => m.answer);
+  const good = answered.filter((m) => (m.score ?? 0) >= profile.minScore);
+  if (good.length || profile.fallback === "none" || !answered.length) {
+    return { matches: good, fellBack: false };
+  }
+  return { matches: answered, fellBack: true };
+}
@@ -0,0 +1,92 @@
+// lib/kbQueryRewrite.ts
+// Query rewriting before retrieval. RFP questions are often long and
+// compound ("Describe your approach to ... including but not limited to
+// ..."), and one embedding of the whole question misses rows that answer a
+// single part of it. An LLM turns the question into a few short, focused
+// search queries; the report searches for each of them and the original
+// question, then fuses the results (retrieveMatchesForQueries in lib/kb.ts).
+
+const MODEL = "gpt-4o-mini";
+
+// Upper bound for a profile's `queryRewrite`
+export const MAX_REWRITE_QUERIES = 5;
+
+function norm(s: any): string {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Up to `maxQueries` focused search queries for `question`, without the
+ * question itself. Returns [] when rewriting is off or fails, so retrieval
+ * falls back to the question alone.
+ */
+export async function rewriteQuery(
+  question: string,
+  maxQueries: number
+): Promise<string[]> {
+  const q = norm(question);
+  const max = Math.min(
+    Math.max(Math.round(maxQueries) || 0, 0),
+    MAX_REWRITE_QUERIES
+  );
+  const key = process.env.OPENAI_API_KEY;
+  if (!q || !max || !key) return [];
+
+  const prompt = `
+You turn RFP questions into search queries for a knowledge base of past RFP
+answers and contract excerpts.
+
+Rewrite the question below into at most ${max} short search queries:
+- one query per distinct topic or requirement the question asks about
+- plain wording: drop boilerplate such as "please describe", "including but
+  not limited to", client names and section numbers
+- spell out abbreviations you are sure about
+- a simple, single-topic question needs only one query
+
+Return ONLY a JSON array of strings.
+
+QUESTION:
+${q}
+`.trim();
+
+  try {
+    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${key}`,
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        temperature: 0,
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+    if (!resp.ok) {
+      console.warn(`[KB] Query rewrite failed: HTTP ${resp.status}`);
+      return [];
+    }
+
+    const data = await resp.json();
+    let raw: string = data?.choices?.[0]?.message?.content || "[]";
+    const first = raw.indexOf("[");
+    const last = raw.lastIndexOf("]");
+    if (first !== -1 && last !== -1) raw = raw.slice(first, last + 1);
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const seen = new Set([q.toLowerCase()]);
+    const queries: string[] = [];
+    for (const item of parsed) {
+      const text = norm(item);
+      if (!text || seen.has(text.toLowerCase())) continue;
+      seen.add(text.toLowerCase());
+      queries.push(text);
+      if (queries.length >= max) break;
+    }
+    return queries;
+  } catch (err: any) {
+    console.warn(`[KB] Query rewrite failed:`, err?.message || err);
+    return [];
+  }
+}
@@ -0,0 +1,173 @@
+// lib/kbRegistry.ts
+// Named knowledge bases (e.g. one per product line). The registry is a
+// single kbs.json at the root of the backend; each KB's own data lives under
+// its key prefix (see lib/kbStore.ts). The default KB always exists.
+import {
+  getRootKbStore,
+  isValidKbName,
+  kbKeyPrefix,
+  withKb,
+  DEFAULT_KB,
+} from "@/lib/kbStore";
+import { invalidateKbIndex } from "@/lib/kb";
+
+const REGISTRY_KEY = "kbs.json";
+
+export type KbInfo = {
+  name: string;
+  label: string;
+  description?: string;
+  createdAt: string;
+};
+
+export class KbRegistryError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DEFAULT_KB_INFO: KbInfo = {
+  name: DEFAULT_KB,
+  label: "Default",
+  createdAt: "",
+};
+
+async function readRegistry(): Promise<KbInfo[]> {
+  const raw = await getRootKbStore().read(REGISTRY_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw.toString("utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeRegistry(kbs: KbInfo[]) {
+  await getRootKbStore().write(
+    REGISTRY_KEY,
+    JSON.stringify(kbs, null, 2),
+    "application/json"
+  );
+}
+
+/** Default KB first, then the named ones by name. */
+export async function listKbs(): Promise<KbInfo[]> {
+  const named = (await readRegistry())
+    .filter((k) => k.name !== DEFAULT_KB)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [DEFAULT_KB_INFO, ...named];
+}
+
+export async function createKb(input: any): Promise<KbInfo> {
+  const store = getRootKbStore();
+  if (!store.writable) {
+    throw new KbRegistryError("KB store is not writable", 503);
+  }
+
+  const name = (input?.name ?? "").toString().trim().toLowerCase();
+  if (!isValidKbName(name)) {
+    throw new KbRegistryError(
+      "`name` must be 1-40 characters: lowercase letters, digits and dashes.",
+      400
+    );
+  }
+
+  const kbs = await readRegistry();
+  if (name === DEFAULT_KB || kbs.some((k) => k.name === name)) {
+    throw new KbRegistryError(`KB already exists: ${name}`, 409);
+  }
+
+  const info: KbInfo = {
+    name,
+    label: (input?.label ?? "").toString().trim() || name,
+    createdAt: new Date().toISOString(),
+  };
+  const description = (input?.description ?? "").toString().trim();
+  if (description) info.description = description;
+
+  await writeRegistry([...kbs, info]);
+  console.log(`[KB] Created KB "${name}"`);
+  return info;
+}
+
+/** Remove a named KB and everything stored under it. */
+export async function deleteKb(name: string): Promise<{ removed: number }> {
+  const store = getRootKbStore();
+  if (!store.writable) {
+    throw new KbRegistryError("KB store is not writable", 503);
+  }
+  if (name === DEFAULT_KB) {
+    throw new KbRegistryError("The default KB cannot be deleted", 400);
+  }
+
+  const kbs = await readRegistry();
+  if (!kbs.some((k) => k.name === name)) {
+    throw new KbRegistryError(`KB not found: ${name}`, 404);
+  }
+
+  // Unregister first so nothing new is routed to it while we clean up
+  await writeRegistry(kbs.filter((k) => k.name !== name));
+
+  const objects = await store.list(kbKeyPrefix(name));
+  for (const o of objects) await store.remove(o.key);
+  withKb(name, () => invalidateKbIndex());
+
+  console.log(`[KB] Deleted KB "${name}" (${objects.length} objects)`);
+  return { removed: objects.length };
+}
+
+/**
+ * Validate a requested KB name (empty means the default KB). Throws a 404
+ * KbRegistryError for names that are not registered.
+ */
+export async function resolveKbName(value: unknown): Promise<string> {
+  const name = (value ?? "").toString().trim().toLowerCase();
+  if (!name || name === DEFAULT_KB) return DEFAULT_KB;
+  if (!isValidKbName(name)) {
+    throw new KbRegistryError(`Invalid KB name: ${name}`, 400);
+  }
+  if (!(await readRegistry()).some((k) => k.name === name)) {
+    throw new KbRegistryError(`KB not found: ${name}`, 404);
+  }
+  return name;
+}
+
+/** A comma-separated list of KB names, in priority order, deduplicated. */
+export async function resolveKbNames(value: unknown): Promise<string[]> {
+  const parts = (value ?? "")
+    .toString()
+    .split(",")
+    .map((p: string) => p.trim())
+    .filter(Boolean);
+  if (!parts.length) return [DEFAULT_KB];
+
+  const out: string[] = [];
+  for (const part of parts) {
+    const name = await resolveKbName(part);
+    if (!out.includes(name)) out.push(name);
+  }
+  return out;
+}
+
+/**
+ * Run a route handler against the KB named by the `kb` query parameter.
+ * Unknown names are answered with a JSON error instead of reaching `fn`.
+ */
+export async function withRequestKb(
+  req: Request,
+  fn: () => Promise<Response>
+): Promise<Response> {
+  let name: string;
+  try {
+    name = await resolveKbName(new URL(req.url).searchParams.get("kb"));
+  } catch (err: any) {
+    return Response.json(
+      { ok: false, error: err.message },
+      { status: err instanceof KbRegistryError ? err.status : 500 }
+    );
+  }
+  return withKb(name, fn);
+}
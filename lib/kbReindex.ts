@@ -0,0 +1,233 @@
+// lib/kbReindex.ts
+// Resumable re-embedding of KB rows whose vectors are missing, stale, or
+// from another embedding model. Progress is committed batch by batch, so a
+// run cut short by a timeout loses at most one batch; the next POST to
+// /api/reindex picks up the rows that still need work.
+import { embedText, EmbeddingResult, EMBEDDING_MODEL } from "@/lib/embed";
+import { getKbStore, withKb } from "@/lib/kbStore";
+import {
+  loadKbVersioned,
+  mutateKb,
+  snapshotKb,
+  invalidateKbIndex,
+  kbEmbeddingIssue,
+  kbEmbeddingText,
+  setKbEmbedding,
+  KBItem,
+} from "@/lib/kb";
+import { SYSTEM_AUDIT, KbAuditContext } from "@/lib/kbAudit";
+import { expandAliases, KbAlias } from "@/lib/kbAliases";
+import { listKbs } from "@/lib/kbRegistry";
+
+const JOB_KEY = "jobs/reindex.json";
+const BATCH_SIZE = 100; // rows per KB save
+const PARALLEL = 10; // concurrent embedding calls
+
+export type ReindexJob = {
+  status: "running" | "done";
+  model: string;
+  // Re-embed every row, not just the stale ones
+  force: boolean;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  embedded: number;
+  failed: number;
+  remaining: number;
+};
+
+export type ReindexOpts = {
+  force?: boolean;
+  // Start a new job even if one is still running
+  restart?: boolean;
+  // Stop after this many rows (per call)
+  limit?: number;
+  // Stop starting new batches after this long (per call)
+  timeBudgetMs?: number;
+  audit?: KbAuditContext;
+};
+
+async function readJob(): Promise<ReindexJob | null> {
+  const raw = await getKbStore().read(JOB_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw.toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function writeJob(job: ReindexJob) {
+  job.updatedAt = new Date().toISOString();
+  await getKbStore().write(
+    JOB_KEY,
+    JSON.stringify(job, null, 2),
+    "application/json"
+  );
+}
+
+function needsReindex(item: KBItem, job: ReindexJob | null): boolean {
+  if (!kbEmbeddingText(item).trim()) return false; // nothing to embed
+  if (kbEmbeddingIssue(item)) return true;
+  // A forced run re-embeds everything not embedded since it started
+  return !!job?.force && (!item.embeddedAt || item.embeddedAt < job.startedAt);
+}
+
+/** Current job (if any) and how many rows need re-embedding, by reason. */
+export async function getReindexStatus() {
+  const job = await readJob();
+  const { items } = await loadKbVersioned();
+
+  const pending: Record<string, number> = {};
+  for (const item of items) {
+    const issue = kbEmbeddingIssue(item);
+    if (issue) pending[issue] = (pending[issue] || 0) + 1;
+  }
+
+  return {
+    model: EMBEDDING_MODEL,
+    total: items.length,
+    pending,
+    job,
+  };
+}
+
+export async function runReindex(opts: ReindexOpts = {}): Promise<ReindexJob> {
+  const startedMs = Date.now();
+  const limit = Number(opts.limit) > 0 ? Number(opts.limit) : Infinity;
+  const budget =
+    Number(opts.timeBudgetMs) > 0 ? Number(opts.timeBudgetMs) : Infinity;
+
+  let job = await readJob();
+  const fresh =
+    !job || job.status === "done" || opts.restart || (opts.force && !job.force);
+  if (fresh) {
+    const now = new Date().toISOString();
+    job = {
+      status: "running",
+      model: EMBEDDING_MODEL,
+      force: !!opts.force,
+      startedAt: now,
+      updatedAt: now,
+      embedded: 0,
+      failed: 0,
+      remaining: 0,
+    };
+    console.log(`[REINDEX] Starting ${job.force ? "forced " : ""}job`);
+  } else {
+    console.log(`[REINDEX] Resuming job started ${job.startedAt}`);
+  }
+
+  // Rows whose embed call failed in this call are not retried until the
+  // next one, so a persistent failure can't spin the loop.
+  const failedIds = new Set<string>();
+  let processed = 0;
+
+  for (;;) {
+    const { items } = await loadKbVersioned();
+    const todo = items.filter(
+      (x) => x.id && !failedIds.has(x.id) && needsReindex(x, job)
+    );
+    job.remaining = todo.length + failedIds.size;
+
+    if (!todo.length) {
+      if (!failedIds.size) {
+        job.status = "done";
+        job.finishedAt = new Date().toISOString();
+      }
+      break;
+    }
+    if (processed >= limit || Date.now() - startedMs > budget) break;
+
+    const batch = todo.slice(0, Math.min(BATCH_SIZE, limit - processed));
+    const results = new Map<
+      string,
+      { text: string; result: EmbeddingResult }
+    >();
+
+    for (let i = 0; i < batch.length; i += PARALLEL) {
+      const group = batch.slice(i, i + PARALLEL);
+      const embeds = await Promise.all(
+        group.map((x) => embedText(kbEmbeddingText(x)))
+      );
+      group.forEach((x, k) => {
+        results.set(x.id!, { text: kbEmbeddingText(x), result: embeds[k] });
+        if (!embeds[k].vector.length) {
+          failedIds.add(x.id!);
+          job.failed++;
+        }
+      });
+    }
+
+    const { result: applied, saved } = await mutateKb(
+      (kb) => {
+        let n = 0;
+        for (const row of kb) {
+          const r = row.id ? results.get(row.id) : undefined;
+          // Skip rows edited while we were embedding; the next pass sees them
+          if (!r || kbEmbeddingText(row) !== r.text) continue;
+          if (r.result.vector.length) {
+            setKbEmbedding(row, r.result);
+            n++;
+          } else if (kbEmbeddingIssue(row) === "missing") {
+            // Rows with no vector at all are marked as failed; an old (stale
+            // but usable) vector is kept rather than dropped
+            setKbEmbedding(row, r.result);
+          }
+        }
+        return n;
+      },
+      {
+        audit: opts.audit || { ...SYSTEM_AUDIT, source: "reindex" },
+        snapshot: false,
+      }
+    );
+    if (!saved.ok) throw new Error(saved.error || "KB save failed");
+
+    processed += batch.length;
+    job.embedded += applied;
+    await writeJob(job);
+    console.log(
+      `[REINDEX] Embedded ${applied}/${batch.length} rows (${job.embedded} total, ${job.failed} failed)`
+    );
+  }
+
+  if (processed) await snapshotKb();
+  await writeJob(job);
+  return job;
+}
+
+export type AliasReindexSummary = {
+  kb: string;
+  affected: number; // rows whose expanded text changed
+};
+
+/**
+ * After the alias dictionary changed from `before` to `after`: drop every
+ * cached index and count, per KB, the rows whose expanded text changed.
+ * Their embeddingHash no longer matches (kbEmbeddingIssue reports "text"),
+ * so POST /api/reindex?kb=<name> re-embeds them, resumably.
+ */
+export async function countAliasedRows(
+  before: KbAlias[],
+  after: KbAlias[]
+): Promise<AliasReindexSummary[]> {
+  invalidateKbIndex(true);
+  const out: AliasReindexSummary[] = [];
+  for (const { name } of await listKbs()) {
+    const { items } = await withKb(name, () => loadKbVersioned());
+    const affected = items.filter((x) => {
+      const text = kbEmbeddingText(x);
+      return (
+        x.id &&
+        text.trim() &&
+        expandAliases(text, before) !== expandAliases(text, after)
+      );
+    }).length;
+    out.push({ kb: name, affected });
+    console.log(
+      `[REINDEX] Aliases changed: KB "${name}" has ${affected} rows to re-embed`
+    );
+  }
+  return out;
+}
@@ -0,0 +1,201 @@
+// lib/kbReingest.ts
+// Re-ingest of a new version of a registered Q&A document. Rows are matched
+// to the ones the document produced before by question: changed answers are
+// updated in place (re-embedded and back to draft), questions missing from
+// the new version are retired (deprecated, see kbLifecycle) and new questions
+// are added.
+import { embedText, EmbeddingResult } from "@/lib/embed";
+import {
+  loadKb,
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  setKbLifecycle,
+  KBItem,
+} from "@/lib/kb";
+import {
+  replaceKbDocumentVersion,
+  KbDocumentVersion,
+  KbSourceDocument,
+} from "@/lib/kbDocuments";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+const PARALLEL = 10;
+
+export type ReingestSummary = {
+  added: number;
+  changed: number;
+  unchanged: number;
+  retired: number;
+  embedFailed: number;
+};
+
+export type ReingestRow = { question: string; answer: string; source: string };
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+function questionKey(q: any) {
+  return norm(q).toLowerCase();
+}
+
+function isRetired(item: KBItem) {
+  return !!item.retiredAt && item.status === "deprecated";
+}
+
+// Rows `doc` produced, by question (QA rows only)
+function rowsOf(kb: KBItem[], docId: string) {
+  const byQuestion = new Map<string, KBItem>();
+  for (const x of kb) {
+    if (x.docId !== docId || (x.kind ?? "qa") !== "qa") continue;
+    const key = questionKey(x.question);
+    if (!byQuestion.has(key)) byQuestion.set(key, x);
+  }
+  return byQuestion;
+}
+
+/**
+ * The answered rows of a new file by question key; the first occurrence of
+ * a question wins and rows without a source get `filename`.
+ */
+export function reingestRows(
+  parsed: { question?: any; answer?: any; source?: any }[],
+  filename: string
+): Map<string, ReingestRow> {
+  const incoming = new Map<string, ReingestRow>();
+  for (const r of parsed) {
+    const question = norm(r.question);
+    const answer = norm(r.answer);
+    if (!question || !answer) continue;
+    const key = questionKey(question);
+    if (incoming.has(key)) continue;
+    incoming.set(key, {
+      question,
+      answer,
+      source: norm(r.source) || filename,
+    });
+  }
+  return incoming;
+}
+
+/**
+ * Apply `incoming` to the rows `doc` produced in `kb`, in place: new
+ * questions are added, changed or restored ones updated, missing ones
+ * retired. `embedded` holds the embeddings of new and changed text, keyed
+ * by kbEmbeddingText.
+ */
+export function applyReingest(
+  kb: KBItem[],
+  doc: { id: string; filename: string },
+  incoming: Map<string, ReingestRow>,
+  embedded: Map<string, EmbeddingResult>
+): ReingestSummary {
+  const out: ReingestSummary = {
+    added: 0,
+    changed: 0,
+    unchanged: 0,
+    retired: 0,
+    embedFailed: 0,
+  };
+  const current = rowsOf(kb, doc.id);
+  const now = new Date().toISOString();
+  const embed = (item: KBItem) => {
+    // Missing only if the row changed under us; embedding health then
+    // reports it like any other failed row
+    setKbEmbedding(item, embedded.get(kbEmbeddingText(item)) || []);
+    if (!item.embedding?.length) out.embedFailed++;
+  };
+
+  for (const [key, row] of incoming) {
+    const target = current.get(key);
+    if (!target) {
+      const item: KBItem = {
+        id: newKbId(),
+        question: row.question,
+        answer: row.answer,
+        source: row.source,
+        sourceFile: doc.filename,
+        docId: doc.id,
+        status: "draft",
+      };
+      embed(item);
+      kb.push(item);
+      out.added++;
+      continue;
+    }
+
+    const textChanged = kbEmbeddingText(target) !== kbEmbeddingText(row);
+    const restored = isRetired(target);
+    if (!textChanged && !restored && target.source === row.source) {
+      out.unchanged++;
+      continue;
+    }
+
+    target.question = row.question;
+    target.answer = row.answer;
+    target.source = row.source;
+    if (restored) delete target.retiredAt;
+    // Approval covered the old text (or the retired row); new or
+    // returning text needs another review
+    if (textChanged || restored) setKbLifecycle(target, "draft");
+    if (textChanged) embed(target);
+    out.changed++;
+  }
+
+  for (const [key, row] of current) {
+    if (incoming.has(key) || isRetired(row)) continue;
+    row.status = "deprecated";
+    row.retiredAt = now;
+    out.retired++;
+  }
+  return out;
+}
+
+/**
+ * Apply `parsed` (the answered rows of the new file) as the next version of
+ * `doc`; `upload` is the new version's raw file (see uploadKbDocument).
+ */
+export async function reingestKbDocument(
+  doc: KbSourceDocument,
+  upload: KbDocumentVersion,
+  parsed: { question?: any; answer?: any; source?: any }[],
+  audit?: KbAuditContext
+): Promise<ReingestSummary & { document: KbSourceDocument }> {
+  const incoming = reingestRows(parsed, doc.filename);
+
+  // Embed up front (outside the retry loop), only new or changed text
+  const before = rowsOf(await loadKb(), doc.id);
+  const toEmbed = Array.from(incoming.entries())
+    .filter(([key, row]) => {
+      const existing = before.get(key);
+      return !existing || kbEmbeddingText(existing) !== kbEmbeddingText(row);
+    })
+    .map(([, row]) => row);
+
+  const embedded = new Map<string, EmbeddingResult>();
+  for (let i = 0; i < toEmbed.length; i += PARALLEL) {
+    const group = toEmbed.slice(i, i + PARALLEL);
+    const results = await Promise.all(
+      group.map((row) => embedText(kbEmbeddingText(row)))
+    );
+    group.forEach((row, k) => embedded.set(kbEmbeddingText(row), results[k]));
+  }
+
+  const { result: summary, saved } = await mutateKb(
+    (kb) => applyReingest(kb, doc, incoming, embedded),
+    { audit }
+  );
+  if (!saved.ok) throw new Error(saved.error || "KB save failed");
+
+  const document = await replaceKbDocumentVersion(doc.id, {
+    ...upload,
+    rows: summary.added + summary.changed + summary.unchanged,
+  });
+
+  console.log(
+    `[KB] Re-ingested "${doc.filename}": ${summary.added} added, ${summary.changed} changed, ${summary.unchanged} unchanged, ${summary.retired} retired`
+  );
+  return { ...summary, document };
+}
@@ -0,0 +1,117 @@
+// lib/kbRerank.ts
+// Optional reranking of retrieved matches before they go into an answer
+// prompt. Retrieval scores embeddings and keywords, which ranks loosely
+// related rows close to the ones that actually answer the question. The
+// reranker has an LLM rate every (question, candidate) pair in one call,
+// drops candidates below the profile's rerankMinScore and reorders the rest.
+// The rating is kept on each match as `rerankScore` (0..1).
+import type { KBScoredItem } from "@/lib/kb";
+
+const MODEL = "gpt-4o-mini";
+// Characters of each candidate the LLM sees
+const MAX_CANDIDATE_CHARS = 1200;
+
+function norm(s: any): string {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+function candidateText(m: KBScoredItem): string {
+  const text =
+    m.kind === "context"
+      ? norm(m.content || m.answer || m.question)
+      : `Q: ${norm(m.question)}\nA: ${norm(m.answer)}`;
+  return text.slice(0, MAX_CANDIDATE_CHARS);
+}
+
+// One 0..1 relevance score per candidate, or null when the call failed
+async function scoreRelevance(
+  question: string,
+  candidates: string[]
+): Promise<number[] | null> {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) return null;
+
+  const prompt = `
+You rate reference material for answering an RFP question.
+
+For each numbered candidate below, rate from 0 to 10 how useful it is for
+answering the question:
+- 10: directly answers it
+- 5: covers part of it or a closely related point
+- 0: unrelated, or only shares a few words with it
+
+Return ONLY a JSON array of ${candidates.length} numbers, in candidate order.
+
+QUESTION:
+${norm(question)}
+
+CANDIDATES:
+${candidates.map((c, i) => `[${i + 1}] ${c}`).join("\n\n")}
+`.trim();
+
+  try {
+    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${key}`,
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        temperature: 0,
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+    if (!resp.ok) {
+      console.warn(`[KB] Rerank failed: HTTP ${resp.status}`);
+      return null;
+    }
+
+    const data = await resp.json();
+    let raw: string = data?.choices?.[0]?.message?.content || "[]";
+    const first = raw.indexOf("[");
+    const last = raw.lastIndexOf("]");
+    if (first !== -1 && last !== -1) raw = raw.slice(first, last + 1);
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed) || parsed.length !== candidates.length) {
+      console.warn(`[KB] Rerank failed: expected ${candidates.length} scores`);
+      return null;
+    }
+    return parsed.map((x) => {
+      const n = Number(x);
+      return Number.isFinite(n) ? Math.min(Math.max(n, 0), 10) / 10 : 0;
+    });
+  } catch (err: any) {
+    console.warn(`[KB] Rerank failed:`, err?.message || err);
+    return null;
+  }
+}
+
+/**
+ * `matches` rated for `question`: those scoring at least `minScore`, best
+ * first, each with its `rerankScore`. When the LLM call fails the matches
+ * come back unchanged (and without rerankScore).
+ */
+export async function rerankMatches<T extends KBScoredItem>(
+  question: string,
+  matches: T[],
+  minScore: number
+): Promise<T[]> {
+  if (!matches.length) return matches;
+  const scores = await scoreRelevance(question, matches.map(candidateText));
+  if (!scores) return matches;
+
+  const kept = matches
+    .map((m, i) => ({ ...m, rerankScore: scores[i] }))
+    .filter((m) => m.rerankScore >= minScore)
+    .sort(
+      (a, b) => b.rerankScore - a.rerankScore || (b.score || 0) - (a.score || 0)
+    );
+  if (kept.length < matches.length) {
+    console.log(
+      `[KB] Rerank dropped ${matches.length - kept.length}/${matches.length} matches below ${minScore}`
+    );
+  }
+  return kept;
+}
@@ -0,0 +1,152 @@
+// lib/kbSanitizeRules.ts
+// Rules sanitizeKb uses to drop Q/A rows that should not be in a reusable KB.
+// Each rule returns the text that triggered it, so every dropped row carries
+// a machine-readable reason (the rule id) and the evidence for it.
+// The entity-specific rule is the heuristic from clean_xlsx.mjs.
+
+export type KbSanitizeRuleId =
+  | "garbage" // the whole answer is junk: N/A, TBD, "-", a single letter
+  | "placeholder" // template text left in: [Client Name], XXX, lorem ipsum
+  | "entity-specific" // tied to one RFP, client or place
+  | "pii"; // personal emails, phone numbers, SSNs, street addresses
+
+export type KbDropReason =
+  | KbSanitizeRuleId
+  | "missing" // no question or no answer
+  | "too-short" // answer shorter than minAnswerLen
+  | "duplicate" // same question and answer as an earlier row
+  | "gpt"; // dropped by the optional GPT pass
+
+export type KbSanitizeRule = {
+  id: KbSanitizeRuleId;
+  test: (question: string, answer: string) => string | null;
+};
+
+export const KB_SANITIZE_RULE_IDS: KbSanitizeRuleId[] = [
+  "garbage",
+  "placeholder",
+  "entity-specific",
+  "pii",
+];
+
+// First pattern that matches, as the matched text
+function firstMatch(text: string, patterns: RegExp[]): string | null {
+  for (const re of patterns) {
+    const m = text.match(re);
+    if (m) return m[0];
+  }
+  return null;
+}
+
+const GARBAGE = [
+  /^(n\/a|na|none|null|tbd|n\s*a|n-?\/-?a|-+|not applicable)$/i,
+  /^[a-z]$/i,
+  /^["']?[a-z]?\W*$/i,
+  /^test$/i,
+];
+
+const PLACEHOLDER = [
+  /lorem ipsum/i,
+  /\bdummy (text|answer|response|data)\b/i,
+  /\bsample text\b/i,
+  /\btest (answer|response|text|data)\b/i,
+  /^\(?\s*\d+\s*words\s*\)?$/i,
+  /\[\s*(client|company|customer|vendor|insert|name|organization)[^\]]*\]/i,
+  /<\s*insert[^>]*>/i,
+  /\{\{[^}]*\}\}/,
+  /\b(insert|add) (client|company|customer) name\b/i,
+  /\bX{3,}\b/,
+];
+
+const ENTITY_SPECIFIC = [
+  /\b(this|the)\s+(rfp|rfi|rfq|solicitation|tender|bid|contract)\b/i,
+  /\bper\s+this\s+(rfp|rfi|rfq)\b/i,
+  /\b(rfp|rfi|rfq)\s*#?\s*\d{3,}\b/i,
+  /\bfor\s+the\s+(county|city|state|university|school district|board)\s+of\b/i,
+  /\bthe\s+(county|city|state)\s+of\s+[a-z]+\b/i,
+  /\bfor\s+[A-Z][A-Za-z]+\s+County\b/i,
+  /\bfor\s+your\s+(employees|members|population|organization|company)\b/i,
+  /\bwithin\s+your\s+(county|city|state|organization|company)\b/i,
+];
+
+// Regional provider claims only count in the answer
+const REGIONAL_PROVIDERS =
+  /we have [^.]*providers?[^.]*\b(northern|southern|eastern|western|region|county|city|state|area)\b/i;
+
+// Toll-free numbers are the company's own lines, not personal data
+const TOLL_FREE = /^\+?1?\D*8(00|33|44|55|66|77|88)\b/;
+
+// Shared mailboxes (support@, info@, ...) are fine to publish
+const ROLE_MAILBOX =
+  /^(support|info|sales|help|contact|privacy|security|compliance|hr|admin|no-?reply|rfp|proposals?)@/i;
+
+const PII = [
+  /\b\d{3}-\d{2}-\d{4}\b/, // SSN
+  /\b\d{1,5}\s+([A-Z][a-z]+\s+){1,3}(Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Suite)\b\.?/,
+];
+const EMAIL = /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g;
+const PHONE = /(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+
+export const KB_SANITIZE_RULES: KbSanitizeRule[] = [
+  {
+    id: "garbage",
+    test: (_q, a) => (a.length < 3 || firstMatch(a, GARBAGE) ? a : null),
+  },
+  {
+    id: "placeholder",
+    test: (q, a) => firstMatch(a, PLACEHOLDER) || firstMatch(q, PLACEHOLDER),
+  },
+  {
+    id: "entity-specific",
+    test: (q, a) =>
+      firstMatch(`${q} ${a}`, ENTITY_SPECIFIC) ||
+      (a.match(REGIONAL_PROVIDERS)?.[0] ?? null),
+  },
+  {
+    id: "pii",
+    test: (_q, a) => {
+      const hit = firstMatch(a, PII);
+      if (hit) return hit;
+      for (const m of a.matchAll(EMAIL)) {
+        if (!ROLE_MAILBOX.test(m[0])) return m[0];
+      }
+      for (const m of a.matchAll(PHONE)) {
+        if (!TOLL_FREE.test(m[0])) return m[0];
+      }
+      return null;
+    },
+  },
+];
+
+/**
+ * The enabled rule ids from a comma-separated list (e.g. the
+ * KB_SANITIZE_RULES env var); all rules when the list is empty.
+ */
+export function parseKbSanitizeRules(list?: string | null): KbSanitizeRuleId[] {
+  const wanted = (list || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  if (!wanted.length) return [...KB_SANITIZE_RULE_IDS];
+  const unknown = wanted.filter(
+    (id) => !KB_SANITIZE_RULE_IDS.includes(id as KbSanitizeRuleId)
+  );
+  if (unknown.length) {
+    console.warn(`[KB] Ignoring unknown sanitize rules: ${unknown.join(", ")}`);
+  }
+  return KB_SANITIZE_RULE_IDS.filter((id) => wanted.includes(id));
+}
+
+/** The first enabled rule the row breaks, with the text that broke it. */
+export function checkKbSanitizeRules(
+  question: string,
+  answer: string,
+  enabled: KbSanitizeRuleId[] = KB_SANITIZE_RULE_IDS
+): { rule: KbSanitizeRuleId; match: string } | null {
+  for (const rule of KB_SANITIZE_RULES) {
+    if (!enabled.includes(rule.id)) continue;
+    const match = rule.test(question, answer);
+    if (match) return { rule: rule.id, match };
+  }
+  return null;
+}
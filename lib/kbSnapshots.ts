@@ -0,0 +1,171 @@
+// lib/kbSnapshots.ts
+// Timestamped copies of kb.json written on every saveKb (once per batched
+// operation, see snapshotKb in lib/kb.ts), plus diffing.
+import { randomBytes } from "crypto";
+import { getKbStore } from "@/lib/kbStore";
+import { pruneKbVectors, readKbDocument } from "@/lib/kbVectors";
+import type { KBItem } from "@/lib/kb";
+
+const SNAPSHOT_PREFIX = "snapshots/";
+
+// How many snapshots to keep; the oldest are pruned after each save.
+const SNAPSHOT_KEEP = Number(process.env.KB_SNAPSHOT_KEEP || 30);
+
+// Fields ignored when deciding whether a row "changed"
+const DIFF_IGNORED_FIELDS = new Set([
+  "embedding",
+  "embeddingModel",
+  "embeddingDims",
+  "embeddingHash",
+  "embeddedAt",
+  "embeddingError",
+  "embeddingFailedAt",
+  "embeddingAttempts",
+  "embeddingRetryAt",
+]);
+
+export type KbSnapshotInfo = {
+  id: string;
+  createdAt: string;
+  size: number;
+};
+
+export type KbRowChange = {
+  id: string;
+  fields: string[];
+  before: KBItem;
+  after: KBItem;
+};
+
+export type KbDiff = {
+  added: KBItem[];
+  removed: KBItem[];
+  changed: KbRowChange[];
+};
+
+function snapshotKey(id: string) {
+  return `${SNAPSHOT_PREFIX}kb-${id}.json`;
+}
+
+function snapshotIdFromKey(key: string): string | null {
+  const m = key.slice(SNAPSHOT_PREFIX.length).match(/^kb-(.+)\.json$/);
+  return m ? m[1] : null;
+}
+
+// "2026-10-19T17:32:55.842Z" -> "2026-10-19T17-32-55-842Z-<rand>"
+function newSnapshotId() {
+  const ts = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${ts}-${randomBytes(2).toString("hex")}`;
+}
+
+function createdAtFromId(id: string) {
+  const m = id.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/);
+  return m ? `${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z` : "";
+}
+
+/**
+ * Store `body` (the serialized KB that was just saved) as a new snapshot
+ * and prune old ones. Failures are logged but never fail the save itself.
+ */
+export async function writeKbSnapshot(body: string): Promise<string | null> {
+  const store = getKbStore();
+  const id = newSnapshotId();
+  try {
+    await store.write(snapshotKey(id), body, "application/json");
+    await pruneKbSnapshots();
+    return id;
+  } catch (err: any) {
+    console.error("[KB] Snapshot write failed:", err?.message || err);
+    return null;
+  }
+}
+
+async function pruneKbSnapshots() {
+  if (!(SNAPSHOT_KEEP > 0)) return;
+  const store = getKbStore();
+  const all = await listKbSnapshots();
+  const stale = all.slice(SNAPSHOT_KEEP);
+  for (const old of stale) {
+    await store.remove(snapshotKey(old.id));
+    console.log(`[KB] Pruned snapshot ${old.id}`);
+  }
+  if (!stale.length) return;
+
+  // Vector sidecars are shared between kb.json and snapshots; drop the ones
+  // nothing points at any more.
+  const bodies: Buffer[] = [];
+  const live = all.slice(0, SNAPSHOT_KEEP).map((s) => snapshotKey(s.id));
+  for (const key of ["kb.json", ...live]) {
+    const raw = await store.read(key);
+    if (raw) bodies.push(raw);
+  }
+  await pruneKbVectors(bodies);
+}
+
+/** Newest first. */
+export async function listKbSnapshots(): Promise<KbSnapshotInfo[]> {
+  const objects = await getKbStore().list(SNAPSHOT_PREFIX);
+  const out: KbSnapshotInfo[] = [];
+  for (const o of objects) {
+    const id = snapshotIdFromKey(o.key);
+    if (!id) continue;
+    out.push({
+      id,
+      createdAt: createdAtFromId(id) || o.uploadedAt,
+      size: o.size,
+    });
+  }
+  return out.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function loadKbSnapshot(id: string): Promise<KBItem[] | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const raw = await getKbStore().read(snapshotKey(id));
+  if (!raw) return null;
+  return (await readKbDocument(raw)).items;
+}
+
+// Rows are matched by id; legacy rows without one fall back to their text.
+function rowKey(item: KBItem) {
+  if (item.id) return `id:${item.id}`;
+  return `text:${item.kind ?? "qa"}|${item.question ?? ""}|${
+    item.answer ?? ""
+  }|${item.content ?? ""}`;
+}
+
+function changedFields(before: KBItem, after: KBItem): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const out: string[] = [];
+  for (const f of fields) {
+    if (DIFF_IGNORED_FIELDS.has(f)) continue;
+    if (JSON.stringify(before[f]) !== JSON.stringify(after[f])) out.push(f);
+  }
+  return out;
+}
+
+/** Rows added, removed and changed going from `from` to `to`. */
+export function diffKb(from: KBItem[], to: KBItem[]): KbDiff {
+  const fromMap = new Map(from.map((x) => [rowKey(x), x]));
+  const toMap = new Map(to.map((x) => [rowKey(x), x]));
+
+  const added: KBItem[] = [];
+  const removed: KBItem[] = [];
+  const changed: KbRowChange[] = [];
+
+  for (const [k, after] of toMap) {
+    const before = fromMap.get(k);
+    if (!before) {
+      added.push(after);
+      continue;
+    }
+    const fields = changedFields(before, after);
+    if (fields.length) {
+      changed.push({ id: after.id || k, fields, before, after });
+    }
+  }
+  for (const [k, before] of fromMap) {
+    if (!toMap.has(k)) removed.push(before);
+  }
+
+  return { added, removed, changed };
+}
@@ -0,0 +1,286 @@
+// lib/kbStaging.ts
+// Optional review step for ingests. A staged ingest parses the file into a
+// pending batch (staging/<id>.json) instead of writing kb.json; an editor
+// then edits rows, marks them accepted or rejected, and commits. Only the
+// accepted rows are embedded and merged into the KB.
+import { randomUUID } from "crypto";
+import { embedText } from "@/lib/embed";
+import { getKbStore } from "@/lib/kbStore";
+import {
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  setKbEmbedding,
+  KBItem,
+} from "@/lib/kb";
+import { validateKbItem } from "@/lib/kbItems";
+import {
+  registerKbDocument,
+  KbDocumentKind,
+  KbSourceDocument,
+} from "@/lib/kbDocuments";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+const STAGING_PREFIX = "staging/";
+const PARALLEL = 10;
+
+export type StagedRowDecision = "pending" | "accepted" | "rejected";
+
+export type StagedRow = {
+  id: string;
+  question?: string;
+  answer?: string;
+  content?: string; // context batches
+  source: string;
+  decision: StagedRowDecision;
+};
+
+export type StagingBatch = {
+  id: string;
+  kind: KbDocumentKind;
+  filename: string;
+  status: "pending" | "committed" | "rejected";
+  createdAt: string;
+  updatedAt: string;
+  document: KbSourceDocument; // uploaded, registered on commit
+  rows: StagedRow[];
+  committed?: { added: number; duplicates: number; embedFailed: number };
+};
+
+export type StagingBatchSummary = Omit<StagingBatch, "rows" | "document"> & {
+  rows: number;
+  decisions: Record<StagedRowDecision, number>;
+};
+
+export class KbStagingError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+// Ids come from the URL; anything else could reach keys outside staging/
+function batchKey(id: string) {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new KbStagingError(`Invalid staging batch id: ${id}`, 400);
+  }
+  return `${STAGING_PREFIX}${id}.json`;
+}
+
+// Same duplicate rule as /api/ingest
+function duplicateKey(x: KBItem) {
+  const text = x.kind === "context" ? x.content : x.question + "|" + x.answer;
+  return `${x.kind ?? "qa"}|${norm(text).toLowerCase()}|${norm(
+    x.source || "unknown-source"
+  ).toLowerCase()}`;
+}
+
+async function readBatch(id: string): Promise<StagingBatch> {
+  const raw = await getKbStore().read(batchKey(id));
+  if (!raw) throw new KbStagingError(`Staging batch not found: ${id}`, 404);
+  return JSON.parse(raw.toString("utf8"));
+}
+
+async function writeBatch(batch: StagingBatch) {
+  batch.updatedAt = new Date().toISOString();
+  await getKbStore().write(
+    batchKey(batch.id),
+    JSON.stringify(batch, null, 2),
+    "application/json"
+  );
+}
+
+async function readPendingBatch(id: string): Promise<StagingBatch> {
+  const batch = await readBatch(id);
+  if (batch.status !== "pending") {
+    throw new KbStagingError(`Staging batch ${id} is ${batch.status}`, 409);
+  }
+  return batch;
+}
+
+function summarize(batch: StagingBatch): StagingBatchSummary {
+  const { rows, document, ...rest } = batch;
+  const decisions = { pending: 0, accepted: 0, rejected: 0 };
+  for (const r of rows) decisions[r.decision]++;
+  return { ...rest, rows: rows.length, decisions };
+}
+
+/** Stage parsed rows (already filtered like a direct ingest would). */
+export async function createStagingBatch(
+  document: KbSourceDocument,
+  rows: Omit<StagedRow, "id" | "decision">[]
+): Promise<StagingBatchSummary> {
+  const now = new Date().toISOString();
+  const batch: StagingBatch = {
+    id: randomUUID(),
+    kind: document.kind,
+    filename: document.filename,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    document,
+    rows: rows.map((r, i) => ({
+      ...r,
+      id: String(i + 1),
+      decision: "pending",
+    })),
+  };
+  await writeBatch(batch);
+  console.log(
+    `[KB] Staged ${batch.rows.length} rows from "${batch.filename}" as batch ${batch.id}`
+  );
+  return summarize(batch);
+}
+
+/** Newest first. */
+export async function listStagingBatches(): Promise<StagingBatchSummary[]> {
+  const objects = await getKbStore().list(STAGING_PREFIX);
+  const out: StagingBatchSummary[] = [];
+  for (const o of objects) {
+    const m = o.key.slice(STAGING_PREFIX.length).match(/^(.+)\.json$/);
+    if (!m) continue;
+    try {
+      out.push(summarize(await readBatch(m[1])));
+    } catch (err: any) {
+      console.warn(`[KB] Unreadable staging batch ${o.key}:`, err?.message);
+    }
+  }
+  return out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getStagingBatch(id: string): Promise<StagingBatch> {
+  return readBatch(id);
+}
+
+/**
+ * Edit staged rows: `[{ id, question?, answer?, content?, source?,
+ * decision? }]`. Rows not listed are left as they are.
+ */
+export async function updateStagingBatch(
+  id: string,
+  edits: any[]
+): Promise<StagingBatch> {
+  const batch = await readPendingBatch(id);
+  const byId = new Map(batch.rows.map((r) => [r.id, r]));
+
+  for (const edit of Array.isArray(edits) ? edits : []) {
+    const row = byId.get(String(edit?.id ?? ""));
+    if (!row) {
+      throw new KbStagingError(`Staged row not found: ${edit?.id}`, 400);
+    }
+
+    const next: StagedRow = { ...row };
+    for (const f of ["question", "answer", "content", "source"] as const) {
+      if (edit[f] !== undefined) next[f] = norm(edit[f]);
+    }
+    if (edit.decision !== undefined) {
+      if (!["pending", "accepted", "rejected"].includes(edit.decision)) {
+        throw new KbStagingError(
+          "`decision` must be pending, accepted or rejected.",
+          400
+        );
+      }
+      next.decision = edit.decision;
+    }
+    // Rejected rows are never merged, so they may stay broken
+    const problem =
+      next.decision === "rejected"
+        ? null
+        : validateKbItem({ ...next, kind: batch.kind });
+    if (problem) throw new KbStagingError(`Row ${row.id}: ${problem}`, 400);
+    Object.assign(row, next);
+  }
+
+  await writeBatch(batch);
+  return batch;
+}
+
+/**
+ * Embed and merge the accepted rows (or, when given, exactly `rowIds`) into
+ * the KB, skipping rows the KB already has, and register the document.
+ */
+export async function commitStagingBatch(
+  id: string,
+  opts: { rowIds?: string[]; audit?: KbAuditContext } = {}
+): Promise<StagingBatch> {
+  const batch = await readPendingBatch(id);
+  const wanted = Array.isArray(opts.rowIds) ? new Set(opts.rowIds) : null;
+  for (const row of batch.rows) {
+    if (wanted) row.decision = wanted.has(row.id) ? "accepted" : "rejected";
+  }
+  const accepted = batch.rows.filter((r) => r.decision === "accepted");
+  const doc = batch.document;
+
+  const items: KBItem[] = accepted.map((r) => {
+    const item: KBItem =
+      batch.kind === "context"
+        ? { kind: "context", content: r.content, origin: "context-upload" }
+        : { kind: "qa", question: r.question, answer: r.answer };
+    return {
+      ...item,
+      id: newKbId(),
+      source: r.source,
+      sourceFile: doc.filename,
+      docId: doc.id,
+      status: "draft",
+    };
+  });
+
+  let embedFailed = 0;
+  for (let i = 0; i < items.length; i += PARALLEL) {
+    const group = items.slice(i, i + PARALLEL);
+    const results = await Promise.all(
+      group.map((x) => embedText(kbEmbeddingText(x)))
+    );
+    group.forEach((x, k) => {
+      setKbEmbedding(x, results[k]);
+      if (!results[k].vector.length) embedFailed++;
+    });
+  }
+
+  const { result: added, saved } = await mutateKb(
+    (kb) => {
+      const present = new Set(kb.map(duplicateKey));
+      const fresh = items.filter((x) => !present.has(duplicateKey(x)));
+      kb.push(...fresh);
+      return fresh.length;
+    },
+    { audit: opts.audit }
+  );
+  if (!saved.ok) throw new KbStagingError(saved.error || "Save failed", 503);
+
+  doc.rows = added;
+  await registerKbDocument(doc);
+
+  batch.status = "committed";
+  batch.committed = {
+    added,
+    duplicates: items.length - added,
+    embedFailed,
+  };
+  await writeBatch(batch);
+  console.log(
+    `[KB] Committed staging batch ${id}: ${added} added, ${items.length - added} duplicates`
+  );
+  return batch;
+}
+
+/** Reject the whole batch; its uploaded file is removed. */
+export async function rejectStagingBatch(id: string): Promise<StagingBatch> {
+  const batch = await readPendingBatch(id);
+  await getKbStore()
+    .remove(batch.document.uploadKey)
+    .catch((err) => {
+      console.warn(`[KB] Could not remove upload:`, err?.message || err);
+    });
+  for (const row of batch.rows) row.decision = "rejected";
+  batch.status = "rejected";
+  await writeBatch(batch);
+  console.log(`[KB] Rejected staging batch ${id}`);
+  return batch;
+}
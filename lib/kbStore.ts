@@ -1,56 +1,311 @@
 // lib/kbStore.ts
-import fs from 'fs/promises';
-import path from 'path';
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs/promises";
+import path from "path";
+import { put, del, list } from "@vercel/blob";
 
 /**
- * A simple knowledge base store that persists data to a JSON file on disk.
+ * Storage backend for the knowledge base and everything stored next to it.
  *
- * In a production environment you could swap this out for an object store
- * such as Vercel Blob or your favourite database. The file path defaults
- * to `/tmp/kb.json` but can be overridden via the `KB_PATH` environment
- * variable. The stored schema is an array of objects with the shape:
- * `{ question: string, answers: string[], embedding: number[] }`.
+ * A store is a flat key/value object store (keys look like paths, e.g.
+ * "kb.json" or "uploads/1700000000000-file.xlsx"). lib/kb.ts builds
+ * loadKb/saveKb on top of it, so routes never talk to a backend directly.
+ *
+ * The driver is selected with the `KB_STORE` environment variable:
+ * - "blob"   (default) Vercel Blob, public read URL + read/write token
+ * - "file"   JSON files under `KB_DIR` (defaults to ./.kb)
+ * - "memory" process-local map, handy for tests and throwaway runs
+ *
+ * Named knowledge bases share the backend: each lives under its own key
+ * prefix ("kbs/<name>/"), while the default KB keeps the root so existing
+ * stores need no migration. getKbStore() returns the store of the KB
+ * selected with withKb() for the current request.
  */
 
-const DEFAULT_KB_PATH = '/tmp/kb.json';
+export type KbStoreDriver = "blob" | "file" | "memory";
+
+export type StoredObjectInfo = {
+  key: string;
+  size: number;
+  uploadedAt: string;
+};
+
+export type WriteResult = {
+  key: string;
+  url: string;
+};
 
-function getKbPath(): string {
-  return process.env.KB_PATH || DEFAULT_KB_PATH;
+export interface KbStore {
+  readonly driver: KbStoreDriver;
+  /** False when the backend cannot be written to (e.g. blob without token). */
+  readonly writable: boolean;
+  read(key: string): Promise<Buffer | null>;
+  write(
+    key: string,
+    body: Buffer | string,
+    contentType?: string
+  ): Promise<WriteResult>;
+  remove(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObjectInfo[]>;
 }
 
-export interface KBItem {
-  question: string;
-  answers: string[];
-  embedding: number[];
+// ---------- Vercel Blob ----------
+const DEFAULT_BLOB_BASE =
+  "https://ynyzmdodop38gqsz.public.blob.vercel-storage.com";
+
+function blobToken(): string | undefined {
+  return (
+    process.env.BLOB_READ_WRITE_TOKEN ||
+    process.env.VERCEL_BLOB_READ_WRITE_TOKEN ||
+    process.env.BLOB_READWRITE_TOKEN
+  );
 }
 
-/**
- * Load all knowledge base items from disk. If the file does not exist or
- * cannot be parsed it returns an empty array.
- */
-export async function loadKb(): Promise<KBItem[]> {
-  const kbPath = getKbPath();
-  try {
-    const data = await fs.readFile(kbPath, 'utf8');
-    const items = JSON.parse(data);
-    if (Array.isArray(items)) {
-      return items as KBItem[];
+export function createBlobStore(
+  baseUrl = process.env.BLOB_BASE_URL || DEFAULT_BLOB_BASE
+): KbStore {
+  const token = blobToken();
+
+  return {
+    driver: "blob",
+    writable: !!token,
+
+    async read(key) {
+      const url = `${baseUrl}/${key}?nocache=${Date.now()}`;
+      const res = await fetch(url, {
+        cache: "no-store",
+        headers: { pragma: "no-cache", "cache-control": "no-cache" },
+      });
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new Error(`Blob read failed for ${key}: HTTP ${res.status}`);
+      }
+      return Buffer.from(await res.arrayBuffer());
+    },
+
+    async write(key, body, contentType = "application/json") {
+      if (!token) throw new Error("No blob write token set");
+      const r = await put(key, body, {
+        access: "public",
+        addRandomSuffix: false,
+        allowOverwrite: true,
+        contentType,
+        token,
+      });
+      return { key, url: r.url };
+    },
+
+    async remove(key) {
+      if (!token) throw new Error("No blob write token set");
+      await del(`${baseUrl}/${key}`, { token });
+    },
+
+    async list(prefix) {
+      const out: StoredObjectInfo[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ prefix, cursor, token });
+        for (const b of page.blobs) {
+          out.push({
+            key: b.pathname,
+            size: b.size,
+            uploadedAt: new Date(b.uploadedAt).toISOString(),
+          });
+        }
+        cursor = page.hasMore ? page.cursor : undefined;
+      } while (cursor);
+      return out;
+    },
+  };
+}
+
+// ---------- Local filesystem ----------
+export function createFileStore(
+  rootDir = process.env.KB_DIR || path.join(process.cwd(), ".kb")
+): KbStore {
+  const resolve = (key: string) => {
+    const full = path.resolve(rootDir, key);
+    if (!full.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid store key: ${key}`);
     }
-    return [];
-  } catch {
-    return [];
+    return full;
+  };
+
+  async function walk(dir: string): Promise<string[]> {
+    let entries: import("fs").Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const files: string[] = [];
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) files.push(...(await walk(full)));
+      else if (!e.name.endsWith(".tmp")) files.push(full);
+    }
+    return files;
   }
+
+  return {
+    driver: "file",
+    writable: true,
+
+    async read(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (err: any) {
+        if (err?.code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    async write(key, body) {
+      // Atomic write: temp file + rename
+      const full = resolve(key);
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      const tmp = `${full}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, body);
+      await fs.rename(tmp, full);
+      return { key, url: `file://${full}` };
+    },
+
+    async remove(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    async list(prefix) {
+      const root = path.resolve(rootDir);
+      const files = await walk(root);
+      const out: StoredObjectInfo[] = [];
+      for (const full of files) {
+        const key = path.relative(root, full).split(path.sep).join("/");
+        if (!key.startsWith(prefix)) continue;
+        const st = await fs.stat(full);
+        out.push({
+          key,
+          size: st.size,
+          uploadedAt: st.mtime.toISOString(),
+        });
+      }
+      return out.sort((a, b) => a.key.localeCompare(b.key));
+    },
+  };
 }
 
-/**
- * Persist the provided knowledge base items to disk. The directory is
- * automatically created if it does not exist. Writes are atomic.
- */
-export async function saveKb(items: KBItem[]): Promise<void> {
-  const kbPath = getKbPath();
-  const dir = path.dirname(kbPath);
-  await fs.mkdir(dir, { recursive: true });
-  const tmpPath = `${kbPath}.tmp`;
-  await fs.writeFile(tmpPath, JSON.stringify(items, null, 2), 'utf8');
-  await fs.rename(tmpPath, kbPath);
+// ---------- In-memory ----------
+export function createMemoryStore(): KbStore {
+  const objects = new Map<string, { body: Buffer; uploadedAt: string }>();
+
+  return {
+    driver: "memory",
+    writable: true,
+
+    async read(key) {
+      const o = objects.get(key);
+      return o ? Buffer.from(o.body) : null;
+    },
+
+    async write(key, body) {
+      objects.set(key, {
+        body:
+          typeof body === "string" ? Buffer.from(body, "utf8") : Buffer.from(body),
+        uploadedAt: new Date().toISOString(),
+      });
+      return { key, url: `memory://${key}` };
+    },
+
+    async remove(key) {
+      objects.delete(key);
+    },
+
+    async list(prefix) {
+      return Array.from(objects.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, o]) => ({
+          key,
+          size: o.body.length,
+          uploadedAt: o.uploadedAt,
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+    },
+  };
+}
+
+// ---------- Selection ----------
+let activeStore: KbStore | null = null;
+
+/** The backend itself, not scoped to any named KB (registry, admin). */
+export function getRootKbStore(): KbStore {
+  if (activeStore) return activeStore;
+
+  const driver = (process.env.KB_STORE || "blob").toLowerCase();
+  if (driver === "file") activeStore = createFileStore();
+  else if (driver === "memory") activeStore = createMemoryStore();
+  else activeStore = createBlobStore();
+
+  console.log(`[KB] Using "${activeStore.driver}" store`);
+  return activeStore;
+}
+
+/** Swap the active store (tests, scripts). Pass null to re-read KB_STORE. */
+export function setKbStore(store: KbStore | null) {
+  activeStore = store;
+}
+
+// ---------- Named knowledge bases ----------
+export const DEFAULT_KB = "default";
+
+const KB_NAME_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+const kbScope = new AsyncLocalStorage<string>();
+
+export function isValidKbName(name: string) {
+  return KB_NAME_RE.test(name);
+}
+
+/** Key prefix of a KB inside the backend ("" for the default KB). */
+export function kbKeyPrefix(name: string) {
+  return name === DEFAULT_KB ? "" : `kbs/${name}/`;
+}
+
+/** Name of the KB the current request works on. */
+export function currentKb(): string {
+  return kbScope.getStore() || DEFAULT_KB;
+}
+
+/** Run `fn` (and everything it awaits) against the named KB. */
+export function withKb<T>(name: string, fn: () => T): T {
+  if (!isValidKbName(name)) throw new Error(`Invalid KB name: ${name}`);
+  return kbScope.run(name, fn);
+}
+
+function scopedStore(base: KbStore, prefix: string): KbStore {
+  return {
+    driver: base.driver,
+    writable: base.writable,
+    read: (key) => base.read(prefix + key),
+    write: (key, body, contentType) =>
+      base.write(prefix + key, body, contentType),
+    remove: (key) => base.remove(prefix + key),
+    async list(p) {
+      const objects = await base.list(prefix + p);
+      return objects.map((o) => ({ ...o, key: o.key.slice(prefix.length) }));
+    },
+  };
+}
+
+const scopedStores = new Map<string, { base: KbStore; store: KbStore }>();
+
+/** Store of the current KB (see withKb). */
+export function getKbStore(): KbStore {
+  const base = getRootKbStore();
+  const prefix = kbKeyPrefix(currentKb());
+  if (!prefix) return base;
+
+  const cached = scopedStores.get(prefix);
+  if (cached && cached.base === base) return cached.store;
+  const store = scopedStore(base, prefix);
+  scopedStores.set(prefix, { base, store });
+  return store;
 }
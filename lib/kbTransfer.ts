@@ -0,0 +1,306 @@
+// lib/kbTransfer.ts
+// Bulk export / import of KB rows, for editing the KB outside the app.
+//
+// Two formats round-trip:
+// - JSONL: one row per line with every field except the vectors
+// - XLSX ("KB Master"): columns Question, Answer, Source, Kind, Tags, ID.
+//   Context rows keep their text in the Answer column.
+//
+// Import matches rows by ID, so edited spreadsheets update rows in place;
+// only rows whose text changed are re-embedded.
+import * as XLSX from "xlsx";
+import { embedText, EmbeddingResult } from "@/lib/embed";
+import {
+  loadKb,
+  mutateKb,
+  newKbId,
+  kbEmbeddingText,
+  kbLifecycle,
+  setKbEmbedding,
+  setKbLifecycle,
+  KBItem,
+} from "@/lib/kb";
+import { validateKbItem } from "@/lib/kbItems";
+import type { KbAuditContext } from "@/lib/kbAudit";
+
+export type KbTransferFormat = "jsonl" | "xlsx";
+
+export const XLSX_COLUMNS = [
+  "Question",
+  "Answer",
+  "Source",
+  "Kind",
+  "Tags",
+  "ID",
+] as const;
+
+// Derived from the row text; never exported or imported
+const VECTOR_FIELDS = [
+  "embedding",
+  "embeddingModel",
+  "embeddingDims",
+  "embeddingHash",
+  "embeddedAt",
+  "embeddingError",
+  "embeddingFailedAt",
+  "embeddingAttempts",
+  "embeddingRetryAt",
+];
+
+const PARALLEL = 10;
+
+export type KbImportResult = {
+  rows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  reembedded: number;
+  embedFailed: number;
+  errors: { row: number; error: string }[];
+};
+
+function norm(s: any) {
+  return (s ?? "").toString().replace(/\s+/g, " ").trim();
+}
+
+function parseTags(value: any): string[] {
+  const list = Array.isArray(value) ? value : norm(value).split(/[,;]/);
+  return list.map(norm).filter(Boolean);
+}
+
+function withoutVectors(item: KBItem): KBItem {
+  const out: KBItem = { ...item };
+  for (const f of VECTOR_FIELDS) delete out[f];
+  return out;
+}
+
+// ---------- Export ----------
+export async function exportKb(
+  format: KbTransferFormat
+): Promise<{ body: Buffer; contentType: string; extension: string }> {
+  const items = await loadKb();
+
+  if (format === "jsonl") {
+    const lines = items.map((x) => JSON.stringify(withoutVectors(x)));
+    return {
+      body: Buffer.from(lines.join("\n") + "\n", "utf8"),
+      contentType: "application/x-ndjson",
+      extension: "jsonl",
+    };
+  }
+
+  const rows = items.map((x) => {
+    const context = x.kind === "context";
+    return [
+      context ? "" : x.question || "",
+      context ? x.content || "" : x.answer || "",
+      x.source || "",
+      x.kind ?? "qa",
+      parseTags(x.tags).join(", "),
+      x.id || "",
+    ];
+  });
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet([[...XLSX_COLUMNS], ...rows]);
+  XLSX.utils.book_append_sheet(wb, ws, "KB");
+  const buf = XLSX.write(wb, { bookType: "xlsx", type: "buffer" }) as Buffer;
+  return {
+    body: Buffer.from(buf),
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  };
+}
+
+// ---------- Import ----------
+type ImportRow = { row: number; item: KBItem }; // 1-based line / sheet row
+
+/** Parse an uploaded file into row inputs (plus per-row parse errors). */
+export function parseKbImport(
+  buf: Buffer,
+  format: KbTransferFormat
+): { rows: ImportRow[]; errors: { row: number; error: string }[] } {
+  const rows: ImportRow[] = [];
+  const errors: { row: number; error: string }[] = [];
+
+  if (format === "jsonl") {
+    const lines = buf.toString("utf8").split(/\r?\n/);
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        const parsed = JSON.parse(line);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+          throw new Error("Not a JSON object");
+        }
+        rows.push({ row: i + 1, item: withoutVectors(parsed) });
+      } catch (err: any) {
+        errors.push({ row: i + 1, error: err?.message || "Invalid JSON" });
+      }
+    });
+    return { rows, errors };
+  }
+
+  const wb = XLSX.read(buf, { type: "buffer" });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return { rows, errors };
+  const records: any[] = XLSX.utils.sheet_to_json(ws, { defval: "" });
+
+  records.forEach((rec, i) => {
+    // Header names are matched case-insensitively; a missing column leaves
+    // that field of an existing row alone
+    const cell = (name: string): string | undefined => {
+      const key = Object.keys(rec).find(
+        (k) => norm(k).toLowerCase() === name.toLowerCase()
+      );
+      return key === undefined ? undefined : norm(rec[key]);
+    };
+    const kind = cell("Kind")?.toLowerCase() === "context" ? "context" : "qa";
+    const item: KBItem = { kind };
+    if (kind === "context") {
+      item.content = cell("Answer");
+    } else {
+      item.question = cell("Question");
+      item.answer = cell("Answer");
+    }
+    const source = cell("Source");
+    if (source !== undefined) item.source = source;
+    const tags = cell("Tags");
+    if (tags !== undefined) item.tags = parseTags(tags);
+    const id = cell("ID");
+    if (id) item.id = id;
+    rows.push({ row: i + 2, item }); // row 1 is the header
+  });
+  return { rows, errors };
+}
+
+// Without an ID, a row updates an existing one with the same question
+// (QA) or content (context) instead of being added twice.
+function textKey(item: KBItem) {
+  const kind = item.kind ?? "qa";
+  const text = kind === "context" ? item.content : item.question;
+  return `${kind}|${norm(text).toLowerCase()}`;
+}
+
+export async function importKb(
+  buf: Buffer,
+  format: KbTransferFormat,
+  audit?: KbAuditContext
+): Promise<KbImportResult> {
+  const { rows, errors } = parseKbImport(buf, format);
+  const result: KbImportResult = {
+    rows: rows.length + errors.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    reembedded: 0,
+    embedFailed: 0,
+    errors,
+  };
+
+  const valid: KBItem[] = [];
+  for (const { row: n, item: row } of rows) {
+    row.kind = row.kind === "context" ? "context" : "qa";
+    for (const f of ["question", "answer", "content", "source"]) {
+      if (row[f] !== undefined) row[f] = norm(row[f]);
+    }
+    if (row.tags !== undefined) {
+      // An empty Tags cell clears the row's tags
+      const tags = parseTags(row.tags);
+      row.tags = tags.length ? tags : undefined;
+    }
+    const problem = validateKbItem(row);
+    if (problem) errors.push({ row: n, error: problem });
+    else valid.push(row);
+  }
+  if (!valid.length) return result;
+
+  // Embed up front (outside the retry loop), only for new or changed text
+  const current = await loadKb();
+  const byId = new Map(current.map((x) => [x.id, x]));
+  const byText = new Map(current.map((x) => [textKey(x), x]));
+  const existingFor = (row: KBItem) =>
+    (row.id && byId.get(row.id)) || (!row.id && byText.get(textKey(row)));
+
+  const toEmbed = valid.filter((row) => {
+    const existing = existingFor(row);
+    return !existing || kbEmbeddingText(existing) !== kbEmbeddingText(row);
+  });
+  const embedded = new Map<string, EmbeddingResult>();
+  for (let i = 0; i < toEmbed.length; i += PARALLEL) {
+    const group = toEmbed.slice(i, i + PARALLEL);
+    const results = await Promise.all(
+      group.map((row) => embedText(kbEmbeddingText(row)))
+    );
+    group.forEach((row, k) => embedded.set(kbEmbeddingText(row), results[k]));
+  }
+
+  const { result: counts, saved } = await mutateKb(
+    (kb) => {
+      const c = {
+        created: 0,
+        updated: 0,
+        unchanged: 0,
+        reembedded: 0,
+        failed: 0,
+      };
+      const ids = new Map(kb.map((x) => [x.id, x]));
+      const texts = new Map(kb.map((x) => [textKey(x), x]));
+
+      for (const row of valid) {
+        const target = row.id ? ids.get(row.id) : texts.get(textKey(row));
+        const text = kbEmbeddingText(row);
+
+        if (!target) {
+          const item: KBItem = {
+            ...row,
+            id: row.id || newKbId(),
+            origin: row.origin || "import",
+          };
+          setKbEmbedding(item, embedded.get(text) || []);
+          if (!item.embedding?.length) c.failed++;
+          kb.push(item);
+          ids.set(item.id, item);
+          texts.set(textKey(item), item);
+          c.created++;
+          continue;
+        }
+
+        const before = JSON.stringify(withoutVectors(target));
+        const textChanged = kbEmbeddingText(target) !== text;
+        Object.assign(target, row, { id: target.id });
+        // Approval covered the old text; the import has to say "approved"
+        // to keep it (XLSX rows carry no status at all)
+        const status = kbLifecycle(target);
+        if (
+          textChanged &&
+          row.status !== "approved" &&
+          (status === "approved" || status === "draft")
+        ) {
+          setKbLifecycle(target, "draft");
+        }
+        if (textChanged) {
+          // Re-embedded above unless the row changed under us; then the
+          // vector is missing and the row shows up in embedding health
+          setKbEmbedding(target, embedded.get(text) || []);
+          if (target.embedding?.length) c.reembedded++;
+          else c.failed++;
+        }
+        if (JSON.stringify(withoutVectors(target)) === before) c.unchanged++;
+        else c.updated++;
+      }
+      return c;
+    },
+    { audit }
+  );
+  if (!saved.ok) throw new Error(saved.error || "KB save failed");
+
+  result.created = counts.created;
+  result.updated = counts.updated;
+  result.unchanged = counts.unchanged;
+  result.reembedded = counts.reembedded;
+  result.embedFailed = counts.failed;
+  console.log(
+    `[KB] Import: ${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.reembedded} re-embedded`
+  );
+  return result;
+}
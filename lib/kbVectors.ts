@@ -0,0 +1,260 @@
+// lib/kbVectors.ts
+// Compact on-disk format for the KB.
+//
+// kb.json holds only row metadata:
+//   { "format": 2, "vectors": "vectors/<sha1>.bin", "items": [...] }
+// and the embeddings live in a packed binary sidecar keyed by item id.
+// The sidecar name is a content hash, so kb.json (and its version) changes
+// whenever any vector changes, and snapshots can share sidecars.
+//
+// Sidecar layout (little-endian):
+//   "KBV1" | u8 encoding (0 = float32, 1 = int8) | 3 bytes pad | u32 count
+//   then per record:
+//   u16 idLen | id (utf8) | u32 dims | [f32 scale, int8 only] | data
+import { createHash } from "crypto";
+import { getKbStore } from "@/lib/kbStore";
+import type { KBItem } from "@/lib/kb";
+
+export const KB_FORMAT = 2;
+const VECTORS_PREFIX = "vectors/";
+const MAGIC = "KBV1";
+
+export type VectorEncoding = "float32" | "int8";
+
+export type KbDocument = {
+  format: number;
+  vectors: string | null;
+  items: KBItem[];
+};
+
+function vectorEncoding(): VectorEncoding {
+  return process.env.KB_VECTOR_ENCODING === "int8" ? "int8" : "float32";
+}
+
+/** Any stored embedding shape -> Float32Array (empty when unusable). */
+export function toFloat32(e: any): Float32Array {
+  if (e instanceof Float32Array) return e;
+  if (typeof e === "string") {
+    try {
+      e = JSON.parse(e);
+    } catch {
+      return new Float32Array(0);
+    }
+  }
+  if (!Array.isArray(e)) return new Float32Array(0);
+  return Float32Array.from(e, (n: any) => Number(n) || 0);
+}
+
+export function encodeVectors(
+  entries: { id: string; vector: Float32Array }[],
+  encoding: VectorEncoding = vectorEncoding()
+): Buffer {
+  const parts: Buffer[] = [];
+
+  const header = Buffer.alloc(12);
+  header.write(MAGIC, 0, "ascii");
+  header.writeUInt8(encoding === "int8" ? 1 : 0, 4);
+  header.writeUInt32LE(entries.length, 8);
+  parts.push(header);
+
+  for (const { id, vector } of entries) {
+    const idBuf = Buffer.from(id, "utf8");
+    const head = Buffer.alloc(2 + idBuf.length + 4);
+    head.writeUInt16LE(idBuf.length, 0);
+    idBuf.copy(head, 2);
+    head.writeUInt32LE(vector.length, 2 + idBuf.length);
+    parts.push(head);
+
+    if (encoding === "int8") {
+      let max = 0;
+      for (let i = 0; i < vector.length; i++) {
+        max = Math.max(max, Math.abs(vector[i]));
+      }
+      const scale = max / 127 || 1;
+      const data = Buffer.alloc(4 + vector.length);
+      data.writeFloatLE(scale, 0);
+      for (let i = 0; i < vector.length; i++) {
+        data.writeInt8(Math.round(vector[i] / scale), 4 + i);
+      }
+      parts.push(data);
+    } else {
+      parts.push(Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+export function decodeVectors(buf: Buffer): Map<string, Float32Array> {
+  const out = new Map<string, Float32Array>();
+  if (buf.length < 12 || buf.toString("ascii", 0, 4) !== MAGIC) {
+    throw new Error("Not a KB vector file");
+  }
+  const int8 = buf.readUInt8(4) === 1;
+  const count = buf.readUInt32LE(8);
+
+  let off = 12;
+  for (let r = 0; r < count; r++) {
+    const idLen = buf.readUInt16LE(off);
+    off += 2;
+    const id = buf.toString("utf8", off, off + idLen);
+    off += idLen;
+    const dims = buf.readUInt32LE(off);
+    off += 4;
+
+    const vec = new Float32Array(dims);
+    if (int8) {
+      const scale = buf.readFloatLE(off);
+      off += 4;
+      for (let i = 0; i < dims; i++) vec[i] = buf.readInt8(off + i) * scale;
+      off += dims;
+    } else {
+      // Copy into an aligned buffer; the record offset is rarely 4-aligned
+      new Uint8Array(vec.buffer).set(buf.subarray(off, off + dims * 4));
+      off += dims * 4;
+    }
+    out.set(id, vec);
+  }
+  return out;
+}
+
+/** Parse a stored kb.json in either the legacy array or the v2 shape. */
+export function parseKbDocument(raw: Buffer | string): KbDocument {
+  const parsed = JSON.parse(raw.toString());
+  if (Array.isArray(parsed)) {
+    return { format: 1, vectors: null, items: parsed };
+  }
+  return {
+    format: Number(parsed?.format) || KB_FORMAT,
+    vectors: typeof parsed?.vectors === "string" ? parsed.vectors : null,
+    items: Array.isArray(parsed?.items) ? parsed.items : [],
+  };
+}
+
+// Vectors of the sidecars this process read or wrote last, by key. A save
+// whose vectors all match the current sidecar's reuses it without encoding
+// or uploading anything (most edits touch metadata only).
+const SIDECAR_CACHE_SIZE = 4;
+const sidecarCache = new Map<string, Map<string, Float32Array>>();
+
+function rememberSidecar(key: string, vectors: Map<string, Float32Array>) {
+  sidecarCache.delete(key);
+  sidecarCache.set(key, vectors);
+  while (sidecarCache.size > SIDECAR_CACHE_SIZE) {
+    sidecarCache.delete(sidecarCache.keys().next().value!);
+  }
+}
+
+function sameVector(a: Float32Array, b: Float32Array) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// True when `entries` are exactly the vectors stored under `key`
+function sidecarMatches(
+  key: string | null | undefined,
+  entries: { id: string; vector: Float32Array }[]
+) {
+  const known = key ? sidecarCache.get(key) : undefined;
+  if (!known || known.size !== entries.length) return false;
+  return entries.every(({ id, vector }) => {
+    const stored = known.get(id);
+    return !!stored && sameVector(stored, vector);
+  });
+}
+
+/**
+ * Load a kb.json document and attach embeddings from its sidecar. Throws
+ * when the sidecar is missing or unreadable: rows without their vectors
+ * must never be saved back over the real KB.
+ */
+export async function readKbDocument(raw: Buffer | string): Promise<KbDocument> {
+  const doc = parseKbDocument(raw);
+  if (doc.format === 1) {
+    // Legacy rows carry inline JSON embeddings; normalize to typed arrays
+    for (const item of doc.items) {
+      if (item.embedding !== undefined) item.embedding = toFloat32(item.embedding);
+    }
+    return doc;
+  }
+
+  if (doc.vectors) {
+    const buf = await getKbStore().read(doc.vectors);
+    if (!buf) throw new Error(`Vector sidecar missing: ${doc.vectors}`);
+    const vectors = decodeVectors(buf);
+    rememberSidecar(doc.vectors, vectors);
+    for (const item of doc.items) {
+      const v = item.id ? vectors.get(item.id) : undefined;
+      if (v) item.embedding = v;
+    }
+  }
+  return doc;
+}
+
+/**
+ * Serialize rows into a v2 kb.json body, writing the vector sidecar first
+ * unless the vectors are those of the current sidecar (`knownVectorsKey`).
+ */
+export async function writeKbDocument(
+  items: KBItem[],
+  knownVectorsKey?: string | null
+): Promise<string> {
+  const entries: { id: string; vector: Float32Array }[] = [];
+  const slim: KBItem[] = [];
+
+  for (const item of items) {
+    const { embedding, ...rest } = item;
+    slim.push(rest);
+    const vector = toFloat32(embedding);
+    if (vector.length && item.id) entries.push({ id: item.id, vector });
+  }
+
+  let vectorsKey: string | null = null;
+  if (entries.length && sidecarMatches(knownVectorsKey, entries)) {
+    vectorsKey = knownVectorsKey!;
+  } else if (entries.length) {
+    const buf = encodeVectors(entries);
+    const hash = createHash("sha1").update(buf).digest("hex");
+    vectorsKey = `${VECTORS_PREFIX}${hash}.bin`;
+    if (vectorsKey !== knownVectorsKey) {
+      await getKbStore().write(vectorsKey, buf, "application/octet-stream");
+      console.log(
+        `[KB] Wrote ${entries.length} vectors (${buf.length} bytes) to ${vectorsKey}`
+      );
+    }
+    rememberSidecar(
+      vectorsKey,
+      new Map(entries.map((e) => [e.id, e.vector]))
+    );
+  }
+
+  const doc: KbDocument = { format: KB_FORMAT, vectors: vectorsKey, items: slim };
+  return JSON.stringify(doc);
+}
+
+// Sidecars younger than this are never pruned: another instance may have
+// written one and not yet saved the kb.json that points at it.
+const PRUNE_GRACE_MS = 60 * 60 * 1000;
+
+/** Remove sidecars that no kb.json body in `referencedBy` points at. */
+export async function pruneKbVectors(referencedBy: (Buffer | string)[]) {
+  const keep = new Set<string>();
+  for (const raw of referencedBy) {
+    try {
+      const v = parseKbDocument(raw).vectors;
+      if (v) keep.add(v);
+    } catch {
+      // unreadable document: keeps nothing alive
+    }
+  }
+  const store = getKbStore();
+  const cutoff = Date.now() - PRUNE_GRACE_MS;
+  for (const o of await store.list(VECTORS_PREFIX)) {
+    if (!keep.has(o.key) && Date.parse(o.uploadedAt) < cutoff) {
+      await store.remove(o.key);
+      console.log(`[KB] Pruned unreferenced vectors ${o.key}`);
+    }
+  }
+}
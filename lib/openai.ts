@@ -1,13 +1,15 @@
 import OpenAI from 'openai';
+import { EMBEDDING_MODEL } from '@/lib/embed';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-// Compute embeddings using OpenAI's embeddings API. Uses the text-embedding-ada-002 model.
+// Compute embeddings using OpenAI's embeddings API. Uses the same model as
+// lib/embed.ts so vectors stay comparable with the KB.
 export async function getEmbedding(text: string): Promise<number[]> {
   const resp = await openai.embeddings.create({
-    model: 'text-embedding-ada-002',
+    model: EMBEDDING_MODEL,
     input: text.replace(/\s+/g, ' ').trim(),
   });
   return resp.data[0].embedding;
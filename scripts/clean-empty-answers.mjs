@@ -5,6 +5,10 @@
 //   - Removes any entry with NO real answer (empty / whitespace)
 //   - Writes kb-empty-pruned.json locally
 //
+// Works on both the legacy array kb.json and the current
+// { format, vectors, items } shape; the vector sidecar is left as is
+// (vectors of removed rows are simply never looked up).
+//
 // After running, upload kb-empty-pruned.json as kb.json in Vercel Blobs.
 
 import fs from "node:fs/promises";
@@ -52,14 +56,15 @@ async function main() {
     process.exit(1);
   }
 
-  if (!Array.isArray(data)) {
-    console.error("❌ kb.json is not an array");
+  const rows = Array.isArray(data) ? data : data?.items;
+  if (!Array.isArray(rows)) {
+    console.error("❌ kb.json has no rows array");
     process.exit(1);
   }
 
-  const original = data.length;
+  const original = rows.length;
 
-  const kept = data.filter((row) => hasRealAnswer(row));
+  const kept = rows.filter((row) => hasRealAnswer(row));
   const removed = original - kept.length;
 
   console.log(`📊 Original rows : ${original}`);
@@ -67,7 +72,8 @@ async function main() {
   console.log(`✅ Remaining      : ${kept.length}`);
 
   const outPath = path.join(__dirname, "..", "kb-empty-pruned.json");
-  await fs.writeFile(outPath, JSON.stringify(kept, null, 2), "utf8");
+  const out = Array.isArray(data) ? kept : { ...data, items: kept };
+  await fs.writeFile(outPath, JSON.stringify(out, null, 2), "utf8");
   console.log("");
   console.log(`💾 Wrote cleaned KB to: ${outPath}`);
   console.log("Next steps:");
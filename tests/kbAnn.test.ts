@@ -0,0 +1,96 @@
+// tests/kbAnn.test.ts
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { KbAnnRow } from "@/lib/kbAnn";
+
+// Read when lib/kbAnn loads, hence the dynamic imports below. A small beam
+// keeps the search from simply visiting most of the graph.
+process.env.KB_ANN_MIN_ROWS = "500";
+process.env.KB_ANN_EF_SEARCH = "40";
+
+let syncKbAnnIndex: typeof import("@/lib/kbAnn").syncKbAnnIndex;
+
+const DIMS = 32;
+const K = 10;
+
+// Seeded so a failure can be reproduced
+let seed = 42;
+function random() {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+
+function vector() {
+  return Float32Array.from({ length: DIMS }, () => random() * 2 - 1);
+}
+
+function row(id: string, v: Float32Array, key = id): KbAnnRow {
+  let sum = 0;
+  for (const x of v) sum += x * x;
+  return { id, key, vector: v, norm: Math.sqrt(sum) };
+}
+
+// Exact top-k by cosine similarity
+function bruteForce(rows: KbAnnRow[], q: Float32Array, k: number) {
+  const qn = row("q", q).norm;
+  return rows
+    .map((r, i) => {
+      let dot = 0;
+      for (let d = 0; d < DIMS; d++) dot += q[d] * r.vector[d];
+      return { i, sim: dot / (qn * r.norm) };
+    })
+    .sort((a, b) => b.sim - a.sim)
+    .slice(0, k)
+    .map((x) => x.i);
+}
+
+function recall(
+  index: { search(q: Float32Array, k: number): number[] },
+  rows: KbAnnRow[],
+  queries: Float32Array[]
+) {
+  let hits = 0;
+  for (const q of queries) {
+    const found = new Set(index.search(q, K));
+    hits += bruteForce(rows, q, K).filter((i) => found.has(i)).length;
+  }
+  return hits / (queries.length * K);
+}
+
+describe("syncKbAnnIndex", () => {
+  const rows = Array.from({ length: 1500 }, (_, i) => row(`r${i}`, vector()));
+  const queries = Array.from({ length: 50 }, vector);
+
+  before(async () => {
+    const store = await import("@/lib/kbStore");
+    store.setKbStore(store.createMemoryStore());
+    ({ syncKbAnnIndex } = await import("@/lib/kbAnn"));
+  });
+
+  it("skips small KBs", async () => {
+    assert.equal(await syncKbAnnIndex("qa", rows.slice(0, 100), "m"), null);
+  });
+
+  it("finds nearly all of the true nearest neighbours", async () => {
+    const index = (await syncKbAnnIndex("qa", rows, "m"))!;
+    assert.equal(index.size, rows.length);
+    assert.ok(recall(index, rows, queries) >= 0.9);
+  });
+
+  it("keeps its recall after an incremental update", async () => {
+    const next = rows.slice(100).map((r, i) =>
+      i % 10 === 0 ? row(r.id, vector(), `${r.id}-v2`) : r
+    );
+    for (let i = 0; i < 50; i++) next.push(row(`new${i}`, vector()));
+
+    const index = (await syncKbAnnIndex("qa", next, "m"))!;
+    assert.equal(index.size, next.length);
+    assert.ok(recall(index, next, queries) >= 0.9);
+  });
+
+  it("returns row indexes of the rows it was given", async () => {
+    const index = (await syncKbAnnIndex("qa", rows, "m"))!;
+    const [best] = index.search(rows[7].vector, 1);
+    assert.equal(best, 7);
+  });
+});
@@ -0,0 +1,71 @@
+// tests/kbLexical.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildLexicalIndex, scoreLexical, tokenize } from "@/lib/kbLexical";
+
+describe("tokenize", () => {
+  it("lowercases, drops stopwords and folds plurals", () => {
+    assert.deepEqual(tokenize("Please describe your Providers' policies"), [
+      "provider",
+      "policy",
+    ]);
+  });
+
+  it("keeps digits and drops single letters", () => {
+    assert.deepEqual(tokenize("A 24/7 line, option b"), [
+      "24",
+      "7",
+      "line",
+      "option",
+    ]);
+  });
+
+  it("does not strip -ss, -us or -is endings", () => {
+    assert.deepEqual(tokenize("access status analysis"), [
+      "access",
+      "status",
+      "analysis",
+    ]);
+  });
+});
+
+describe("buildLexicalIndex / scoreLexical", () => {
+  const docs = [
+    { question: "How many psychiatrists are in your network?" },
+    { question: "Describe your claims process", answer: "Claims are paid." },
+    { answer: "Our network includes psychiatrists and psychologists." },
+    { content: "Implementation takes ninety days from contract signature." },
+  ];
+  const index = buildLexicalIndex(docs);
+
+  it("scores only rows that contain a query term", () => {
+    const scores = scoreLexical(index, "psychiatrists");
+    assert.ok(scores[0] > 0);
+    assert.ok(scores[2] > 0);
+    assert.equal(scores[1], 0);
+    assert.equal(scores[3], 0);
+  });
+
+  it("weighs a question hit above the same word in an answer", () => {
+    const scores = scoreLexical(index, "psychiatrist network");
+    assert.ok(scores[0] > scores[2]);
+  });
+
+  it("keeps scores between 0 and 1", () => {
+    for (const q of ["claims", "claims process paid", "implementation days"]) {
+      for (const s of scoreLexical(index, q)) {
+        assert.ok(s >= 0 && s <= 1, `${q}: ${s}`);
+      }
+    }
+  });
+
+  it("ignores terms no row contains", () => {
+    const known = scoreLexical(index, "implementation");
+    const mixed = scoreLexical(index, "implementation zebra");
+    assert.deepEqual(mixed, known);
+  });
+
+  it("returns all zeros for a query of stopwords", () => {
+    assert.ok(scoreLexical(index, "what is the").every((s) => s === 0));
+  });
+});
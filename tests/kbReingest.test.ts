@@ -0,0 +1,129 @@
+// tests/kbReingest.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { kbEmbeddingText, KBItem } from "@/lib/kb";
+import type { EmbeddingResult } from "@/lib/embed";
+import { applyReingest, reingestRows } from "@/lib/kbReingest";
+
+const DOC = { id: "doc1", filename: "rfp-2025.xlsx" };
+
+function row(id: string, question: string, answer: string): KBItem {
+  return {
+    id,
+    question,
+    answer,
+    source: DOC.filename,
+    sourceFile: DOC.filename,
+    docId: DOC.id,
+    status: "approved",
+    approvedAt: "2025-01-01T00:00:00.000Z",
+    reviewer: "editor",
+    embedding: [1, 0],
+  };
+}
+
+// An embedding for every incoming text, as reingestKbDocument prepares them
+function embeddingsFor(incoming: Map<string, any>) {
+  const out = new Map<string, EmbeddingResult>();
+  for (const r of incoming.values()) {
+    out.set(kbEmbeddingText(r), { vector: [0, 1], model: "test" });
+  }
+  return out;
+}
+
+function reingest(kb: KBItem[], parsed: any[]) {
+  const incoming = reingestRows(parsed, DOC.filename);
+  return applyReingest(kb, DOC, incoming, embeddingsFor(incoming));
+}
+
+describe("reingestRows", () => {
+  it("keeps the first answered occurrence of each question", () => {
+    const rows = reingestRows(
+      [
+        { question: "Hours?", answer: "" },
+        { question: " Hours? ", answer: "24/7" },
+        { question: "hours?", answer: "Weekdays" },
+        { question: "Fees?", answer: "None", source: "Pricing tab" },
+      ],
+      DOC.filename
+    );
+    assert.deepEqual(Array.from(rows.values()), [
+      { question: "Hours?", answer: "24/7", source: DOC.filename },
+      { question: "Fees?", answer: "None", source: "Pricing tab" },
+    ]);
+  });
+});
+
+describe("applyReingest", () => {
+  it("adds, updates, keeps and retires rows by question", () => {
+    const kb = [
+      row("a", "Hours?", "24/7"),
+      row("b", "Fees?", "None"),
+      row("c", "Languages?", "English"),
+      { ...row("x", "Hours?", "Other doc"), docId: "doc2" },
+    ];
+    const summary = reingest(kb, [
+      { question: "Hours?", answer: "24/7" },
+      { question: "Fees?", answer: "$2 per member" },
+      { question: "Locations?", answer: "Nationwide" },
+    ]);
+
+    assert.deepEqual(summary, {
+      added: 1,
+      changed: 1,
+      unchanged: 1,
+      retired: 1,
+      embedFailed: 0,
+    });
+    const [a, b, c, x, added] = kb;
+    assert.equal(a.status, "approved");
+    assert.deepEqual(a.embedding, [1, 0]);
+    assert.equal(b.answer, "$2 per member");
+    assert.deepEqual(b.embedding, [0, 1]);
+    assert.equal(c.status, "deprecated");
+    assert.ok(c.retiredAt);
+    assert.equal(x.answer, "Other doc"); // another document's row
+    assert.equal(added.question, "Locations?");
+    assert.equal(added.docId, DOC.id);
+    assert.equal(added.status, "draft");
+  });
+
+  it("returns changed rows to draft and clears their approval", () => {
+    const kb = [row("a", "Hours?", "24/7")];
+    reingest(kb, [{ question: "Hours?", answer: "Weekdays 9-5" }]);
+    assert.equal(kb[0].status, "draft");
+    assert.equal(kb[0].approvedAt, undefined);
+    assert.equal(kb[0].reviewer, undefined);
+  });
+
+  it("restores a retired row as a draft", () => {
+    const kb = [row("a", "Hours?", "24/7")];
+    reingest(kb, []);
+    assert.equal(kb[0].status, "deprecated");
+
+    const summary = reingest(kb, [{ question: "Hours?", answer: "24/7" }]);
+    assert.equal(summary.changed, 1);
+    assert.equal(kb[0].status, "draft");
+    assert.equal(kb[0].retiredAt, undefined);
+    assert.deepEqual(kb[0].embedding, [1, 0]); // same text, not re-embedded
+  });
+
+  it("does not retire a row twice", () => {
+    const kb = [row("a", "Hours?", "24/7")];
+    reingest(kb, []);
+    const retiredAt = kb[0].retiredAt;
+    assert.equal(reingest(kb, []).retired, 0);
+    assert.equal(kb[0].retiredAt, retiredAt);
+  });
+
+  it("counts rows whose embedding is missing", () => {
+    const kb: KBItem[] = [];
+    const incoming = reingestRows(
+      [{ question: "Hours?", answer: "24/7" }],
+      DOC.filename
+    );
+    const summary = applyReingest(kb, DOC, incoming, new Map());
+    assert.equal(summary.embedFailed, 1);
+    assert.ok(kb[0].embeddingError);
+  });
+});
@@ -0,0 +1,81 @@
+// tests/kbSanitizeRules.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkKbSanitizeRules,
+  parseKbSanitizeRules,
+  KB_SANITIZE_RULE_IDS,
+} from "@/lib/kbSanitizeRules";
+
+const Q = "Do you offer 24/7 support?";
+
+function ruleOf(answer: string, question = Q) {
+  return checkKbSanitizeRules(question, answer)?.rule ?? null;
+}
+
+describe("checkKbSanitizeRules", () => {
+  it("keeps an ordinary answer", () => {
+    assert.equal(
+      ruleOf("Yes. Members can reach a licensed counselor at any hour."),
+      null
+    );
+  });
+
+  it("drops junk answers as garbage", () => {
+    for (const a of ["N/A", "TBD", "-", "x", "no"]) {
+      assert.equal(ruleOf(a), "garbage", a);
+    }
+  });
+
+  it("drops template text as placeholder", () => {
+    assert.equal(
+      ruleOf("We will serve [Client Name] from day one."),
+      "placeholder"
+    );
+    assert.equal(ruleOf("Lorem ipsum dolor sit amet."), "placeholder");
+    assert.equal(ruleOf("Our plan covers {{members}}."), "placeholder");
+  });
+
+  it("drops answers tied to one RFP or client", () => {
+    assert.equal(
+      ruleOf("As required by this RFP, we provide quarterly reports."),
+      "entity-specific"
+    );
+    assert.equal(
+      ruleOf("We have 40 providers in the northern region."),
+      "entity-specific"
+    );
+  });
+
+  it("drops personal data but not company contact points", () => {
+    assert.equal(ruleOf("Email jane.doe@example.com for details."), "pii");
+    assert.equal(ruleOf("Call Jane at (555) 123-4567 any time."), "pii");
+    assert.equal(ruleOf("Her SSN is 123-45-6789 on file."), "pii");
+    assert.equal(ruleOf("Write to support@example.com for details."), null);
+    assert.equal(ruleOf("Call 1-800-555-1234 around the clock."), null);
+  });
+
+  it("returns the text that broke the rule", () => {
+    const hit = checkKbSanitizeRules(Q, "Email jane.doe@example.com today.");
+    assert.deepEqual(hit, { rule: "pii", match: "jane.doe@example.com" });
+  });
+
+  it("only applies enabled rules", () => {
+    const a = "Email jane.doe@example.com for details.";
+    assert.equal(checkKbSanitizeRules(Q, a, ["garbage", "placeholder"]), null);
+  });
+});
+
+describe("parseKbSanitizeRules", () => {
+  it("enables every rule for an empty list", () => {
+    assert.deepEqual(parseKbSanitizeRules(""), KB_SANITIZE_RULE_IDS);
+    assert.deepEqual(parseKbSanitizeRules(null), KB_SANITIZE_RULE_IDS);
+  });
+
+  it("keeps known ids in rule order and ignores unknown ones", () => {
+    assert.deepEqual(parseKbSanitizeRules(" PII, bogus ,garbage"), [
+      "garbage",
+      "pii",
+    ]);
+  });
+});
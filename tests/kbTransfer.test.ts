@@ -0,0 +1,84 @@
+// tests/kbTransfer.test.ts
+import { before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryStore, setKbStore } from "@/lib/kbStore";
+import { loadKb, mutateKb, KBItem } from "@/lib/kb";
+import { exportKb, importKb } from "@/lib/kbTransfer";
+
+const APPROVED: KBItem = {
+  id: "a",
+  kind: "qa",
+  question: "Do you offer 24/7 support?",
+  answer: "Yes, by phone.",
+  source: "rfp-2024.xlsx",
+  status: "approved",
+  approvedAt: "2025-01-01T00:00:00.000Z",
+  reviewer: "editor",
+};
+
+function jsonl(...rows: object[]) {
+  return Buffer.from(rows.map((r) => JSON.stringify(r)).join("\n"), "utf8");
+}
+
+async function row(id: string) {
+  return (await loadKb()).find((x) => x.id === id)!;
+}
+
+describe("importKb", () => {
+  before(() => {
+    process.env.OPENAI_API_KEY = "test";
+    globalThis.fetch = (async () =>
+      new Response(
+        JSON.stringify({ data: [{ embedding: [0.1, 0.2, 0.3] }] })
+      )) as typeof fetch;
+  });
+
+  beforeEach(async () => {
+    setKbStore(createMemoryStore());
+    await mutateKb((kb) => {
+      kb.push({ ...APPROVED });
+    });
+  });
+
+  it("returns an approved row to draft after an XLSX text edit", async () => {
+    const { body } = await exportKb("xlsx");
+    const XLSX = await import("xlsx");
+    const wb = XLSX.read(body, { type: "buffer" });
+    const ws = wb.Sheets[wb.SheetNames[0]];
+    ws["B2"] = { t: "s", v: "Yes, by phone and chat." };
+    const edited = XLSX.write(wb, { bookType: "xlsx", type: "buffer" });
+
+    const result = await importKb(Buffer.from(edited), "xlsx");
+    assert.equal(result.updated, 1);
+    const a = await row("a");
+    assert.equal(a.answer, "Yes, by phone and chat.");
+    assert.equal(a.status, "draft");
+    assert.equal(a.approvedAt, undefined);
+    assert.equal(a.reviewer, undefined);
+  });
+
+  it("keeps an approved row approved when its text is unchanged", async () => {
+    const { body } = await exportKb("xlsx");
+    const result = await importKb(body, "xlsx");
+    assert.equal(result.unchanged, 1);
+    assert.equal((await row("a")).status, "approved");
+  });
+
+  it("keeps the approval when the imported row says approved", async () => {
+    await importKb(
+      jsonl({ ...APPROVED, answer: "Yes, by phone and chat." }),
+      "jsonl"
+    );
+    const a = await row("a");
+    assert.equal(a.answer, "Yes, by phone and chat.");
+    assert.equal(a.status, "approved");
+  });
+
+  it("leaves an explicitly deprecated row deprecated", async () => {
+    await importKb(
+      jsonl({ ...APPROVED, answer: "Discontinued.", status: "deprecated" }),
+      "jsonl"
+    );
+    assert.equal((await row("a")).status, "deprecated");
+  });
+});
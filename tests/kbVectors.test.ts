@@ -0,0 +1,61 @@
+// tests/kbVectors.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeVectors, encodeVectors, toFloat32 } from "@/lib/kbVectors";
+
+function randomVector(dims: number) {
+  return Float32Array.from({ length: dims }, () => Math.random() * 2 - 1);
+}
+
+describe("encodeVectors / decodeVectors", () => {
+  const entries = [
+    { id: "a", vector: randomVector(8) },
+    { id: "row-é", vector: randomVector(3) }, // multi-byte id, odd offset
+    { id: "empty", vector: new Float32Array(0) },
+  ];
+
+  it("round-trips float32 vectors exactly", () => {
+    const decoded = decodeVectors(encodeVectors(entries, "float32"));
+    assert.deepEqual(Array.from(decoded.keys()), ["a", "row-é", "empty"]);
+    for (const { id, vector } of entries) {
+      assert.deepEqual(decoded.get(id), vector);
+    }
+  });
+
+  it("round-trips int8 vectors within one quantization step", () => {
+    const decoded = decodeVectors(encodeVectors(entries, "int8"));
+    for (const { id, vector } of entries) {
+      const got = decoded.get(id)!;
+      assert.equal(got.length, vector.length);
+      const max = vector.reduce((m, x) => Math.max(m, Math.abs(x)), 0);
+      for (let i = 0; i < vector.length; i++) {
+        assert.ok(Math.abs(got[i] - vector[i]) <= max / 127);
+      }
+    }
+  });
+
+  it("int8 is about a quarter of the float32 size", () => {
+    const big = [{ id: "x", vector: randomVector(1536) }];
+    const f32 = encodeVectors(big, "float32").length;
+    const i8 = encodeVectors(big, "int8").length;
+    assert.ok(i8 < f32 / 3);
+  });
+
+  it("rejects a buffer that is not a vector file", () => {
+    assert.throws(() => decodeVectors(Buffer.from("not vectors at all")));
+  });
+});
+
+describe("toFloat32", () => {
+  it("accepts arrays, JSON strings and Float32Arrays", () => {
+    assert.deepEqual(toFloat32([1, "2", null]), Float32Array.from([1, 2, 0]));
+    assert.deepEqual(toFloat32("[0.5,1]"), Float32Array.from([0.5, 1]));
+    const v = Float32Array.from([3]);
+    assert.equal(toFloat32(v), v);
+  });
+
+  it("returns an empty vector for unusable input", () => {
+    assert.equal(toFloat32("{oops").length, 0);
+    assert.equal(toFloat32(undefined).length, 0);
+  });
+});